@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useAiUsage } from "~/hooks/useAiUsage";
+import { clearAiUsage, type AiOperation } from "~/utils/aiUsageStore";
+import { cn } from "~/utils/cn";
+import { TrashIcon } from "./icons";
+
+const OPERATION_LABELS: Record<AiOperation, string> = {
+  extraction: "Extraction",
+  "batch-quote": "Auto Quote",
+  "single-quote": "Row Quote",
+  chat: "Chat",
+};
+
+const formatCost = (usd: number) =>
+  usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+interface AiUsageSummaryProps {
+  className?: string;
+}
+
+const AiUsageSummary = ({ className }: AiUsageSummaryProps) => {
+  const { breakdown, totalCostUsd, totalTokens, hasUnknownCost } = useAiUsage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (breakdown.length === 0) return null;
+
+  return (
+    <div className={cn("relative", className)}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex cursor-pointer items-center gap-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-xs font-medium text-slate-300 transition-colors hover:bg-slate-700 hover:text-white"
+        title="AI usage this session"
+      >
+        <span className="font-semibold text-emerald-300">
+          {hasUnknownCost ? "≥ " : ""}
+          {formatCost(totalCostUsd)}
+        </span>
+        <span className="text-slate-500">
+          {formatTokens(totalTokens)} tokens
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 z-50 mt-2 w-max max-w-[480px] rounded-lg border border-slate-700 bg-slate-800 p-3 text-xs shadow-2xl">
+          <div className="mb-2 flex items-center justify-between gap-4">
+            <span className="font-semibold tracking-wider text-slate-400 uppercase">
+              Session Usage
+            </span>
+            <button
+              onClick={() => {
+                clearAiUsage();
+                setIsOpen(false);
+              }}
+              className="cursor-pointer text-slate-500 hover:text-red-400"
+              title="Reset usage"
+            >
+              <TrashIcon className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <table className="w-full text-left text-slate-300">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="pr-4 pb-1 font-medium">Operation</th>
+                <th className="pr-4 pb-1 text-right font-medium">Calls</th>
+                <th className="pr-4 pb-1 text-right font-medium">In / Out</th>
+                <th className="pr-4 pb-1 text-right font-medium">Time</th>
+                <th className="pb-1 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.map((group) => (
+                <tr
+                  key={`${group.operation}:${group.label ?? ""}`}
+                  className="border-t border-slate-700/50"
+                >
+                  <td className="max-w-[200px] truncate py-1 pr-4">
+                    {OPERATION_LABELS[group.operation]}
+                    {group.label && (
+                      <span className="text-slate-500" title={group.label}>
+                        {" "}
+                        · {group.label}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-4 text-right">{group.calls}</td>
+                  <td className="py-1 pr-4 text-right whitespace-nowrap">
+                    {formatTokens(group.inputTokens)} /{" "}
+                    {formatTokens(group.outputTokens)}
+                  </td>
+                  <td className="py-1 pr-4 text-right">
+                    {(group.durationMs / 1000).toFixed(1)}s
+                  </td>
+                  <td className="py-1 text-right">
+                    {group.hasUnknownCost ? "≥ " : ""}
+                    {formatCost(group.costUsd)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hasUnknownCost && (
+            <p className="mt-2 text-slate-500">
+              ≥ Some calls used a model without a configured price.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiUsageSummary;
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { cn } from "~/utils/cn";
+import { columnLetter } from "~/utils/excelUtils";
+import {
+  applyMappingProfile,
+  deleteMappingProfile,
+  type MappingProfile,
+} from "~/utils/mappingProfileUtils";
+import type { ColumnMapping } from "~/utils/spreadsheetImportUtils";
+import { TrashIcon, XIcon } from "./icons";
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  targetHeaders: unknown[];
+  sourceRows: unknown[][]; // Header row first, then data
+  sourceColumns: number[]; // Worksheet column of each source column
+  initialMapping: ColumnMapping;
+  initialProfile?: MappingProfile;
+  profiles: MappingProfile[];
+  onProfilesChange: (profiles: MappingProfile[]) => void;
+  onConfirm: (mapping: ColumnMapping, saveAsProfile?: string) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog = ({
+  fileName,
+  targetHeaders,
+  sourceRows,
+  sourceColumns,
+  initialMapping,
+  initialProfile,
+  profiles,
+  onProfilesChange,
+  onConfirm,
+  onCancel,
+}: ColumnMappingDialogProps) => {
+  const [mapping, setMapping] = useState(initialMapping);
+  const [profileId, setProfileId] = useState(initialProfile?.id ?? "");
+  const [profileName, setProfileName] = useState(initialProfile?.name ?? "");
+  const [saveProfile, setSaveProfile] = useState(false);
+
+  const [sourceHeaders = [], ...body] = sourceRows;
+  const sampleFor = (s: number) =>
+    body.map((row) => String(row[s] ?? "")).find((v) => v.trim() !== "");
+
+  const loadProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setMapping(applyMappingProfile(profile, targetHeaders, sourceHeaders));
+    setProfileName(profile.name);
+  };
+
+  const removeProfile = () => {
+    onProfilesChange(deleteMappingProfile(profileId));
+    setProfileId("");
+  };
+
+  const setSource = (target: number, source: number | null) =>
+    setMapping((prev) =>
+      prev.map((s, t) => {
+        if (t === target) return source;
+        // A source column feeds one target; moving it clears the old one
+        return s === source ? null : s;
+      }),
+    );
+
+  const mappedCount = mapping.filter((s) => s !== null).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
+      <div className="relative flex max-h-[90vh] w-full max-w-2xl flex-col rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-slate-400 hover:text-white"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+
+        <h3 className="text-lg font-bold text-slate-100">Map Columns</h3>
+        <p className="mt-1 text-sm text-slate-400">
+          Choose which column of{" "}
+          <span className="font-medium text-slate-200">{fileName}</span> fills
+          each column of your sheet.
+        </p>
+
+        {profiles.length > 0 && (
+          <div className="mt-4 flex items-center gap-2 text-sm">
+            <span className="text-xs text-slate-500">Profile:</span>
+            <select
+              value={profileId}
+              onChange={(e) => loadProfile(e.target.value)}
+              className="flex-1 cursor-pointer rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-300 hover:bg-slate-700 focus:border-blue-500 focus:outline-none"
+            >
+              <option value="">— Suggested mapping —</option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            {profileId && (
+              <button
+                onClick={removeProfile}
+                className="cursor-pointer text-slate-500 hover:text-red-400"
+                title="Delete this profile"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="mt-4 flex-1 overflow-y-auto rounded border border-slate-700">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-slate-900 text-xs text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Sheet column</th>
+                <th className="px-3 py-2 font-medium">Reference column</th>
+                <th className="px-3 py-2 font-medium">Example</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {targetHeaders.map((header, t) => {
+                const source = mapping[t];
+                return (
+                  <tr key={t}>
+                    <td className="px-3 py-2 font-medium text-slate-200">
+                      {String(header ?? "")}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={source ?? ""}
+                        onChange={(e) =>
+                          setSource(
+                            t,
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                          )
+                        }
+                        className={cn(
+                          "w-full cursor-pointer rounded border bg-slate-800 px-2 py-1 text-xs focus:border-blue-500 focus:outline-none",
+                          source === null
+                            ? "border-slate-700 text-slate-500"
+                            : "border-slate-600 text-slate-200",
+                        )}
+                      >
+                        <option value="">— Leave blank —</option>
+                        {sourceHeaders.map((h, s) => (
+                          <option key={s} value={s}>
+                            {columnLetter(sourceColumns[s])}: {String(h ?? "")}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="max-w-[200px] truncate px-3 py-2 text-xs text-slate-400">
+                      {source !== null && sampleFor(source)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex items-center gap-2 text-sm">
+          <label className="flex cursor-pointer items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+            />
+            Save as profile
+          </label>
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            disabled={!saveProfile}
+            placeholder="Supplier or template name"
+            className="flex-1 rounded border border-slate-600 bg-slate-900 px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500 disabled:opacity-40"
+          />
+        </div>
+
+        <div className="mt-6 flex items-center justify-end gap-3">
+          <span className="mr-auto text-xs text-slate-500">
+            {mappedCount} of {targetHeaders.length} columns mapped
+          </span>
+          <button onClick={onCancel} className="px-4 py-2 text-slate-300">
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onConfirm(
+                mapping,
+                saveProfile && profileName.trim() ? profileName : undefined,
+              )
+            }
+            disabled={mappedCount === 0}
+            className="rounded bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
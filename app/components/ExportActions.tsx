@@ -3,8 +3,8 @@ import {
   SUPPORTED_EXPORT_TYPES,
   type SupportedExportType,
   isOfTypeSupportedExportType,
-  saveToExcel,
 } from "~/utils/excelUtils";
+import { cn } from "~/utils/cn";
 import { DownloadIcon } from "./icons";
 
 interface ExportActionsProps {
@@ -12,6 +12,14 @@ interface ExportActionsProps {
   fileName: string;
   onFileNameChange: (newName: string) => void;
   initialFormat?: SupportedExportType;
+  onExport: (fileName: string, format: SupportedExportType) => void;
+  // Shown when given: downloads and records the prices as paid
+  onExportOrder?: (fileName: string, format: SupportedExportType) => void;
+  // Undefined hides the option (e.g. no original workbook to patch)
+  keepOriginalLayout?: boolean;
+  onKeepOriginalLayoutChange?: (keep: boolean) => void;
+  withSources?: boolean; // Cell fills + "Sources" sheet (XLSX only)
+  onWithSourcesChange?: (withSources: boolean) => void;
 }
 
 const ExportActions = ({
@@ -19,6 +27,12 @@ const ExportActions = ({
   fileName,
   onFileNameChange,
   initialFormat = "xlsx",
+  onExport,
+  onExportOrder,
+  keepOriginalLayout,
+  onKeepOriginalLayoutChange,
+  withSources,
+  onWithSourcesChange,
 }: ExportActionsProps) => {
   const [format, setFormat] = useState<SupportedExportType>(initialFormat);
   const [isEditingName, setIsEditingName] = useState(false);
@@ -105,13 +119,61 @@ const ExportActions = ({
         </div>
       </div>
 
+      {onWithSourcesChange && (
+        <label
+          className={cn(
+            "flex items-center gap-1.5 text-xs text-slate-400",
+            format === "xlsx"
+              ? "cursor-pointer hover:text-slate-200"
+              : "cursor-not-allowed opacity-50",
+          )}
+          title={
+            format === "xlsx"
+              ? "Color cells by where their value came from and add a Sources sheet with each row's citation"
+              : "Only available for XLSX"
+          }
+        >
+          <input
+            type="checkbox"
+            checked={!!withSources && format === "xlsx"}
+            disabled={format !== "xlsx"}
+            onChange={(e) => onWithSourcesChange(e.target.checked)}
+          />
+          With sources
+        </label>
+      )}
+
+      {keepOriginalLayout !== undefined && (
+        <label
+          className="flex cursor-pointer items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200"
+          title="Write only the changed cells and new rows/columns into the original file, keeping its column widths, merged cells, formulas and, for .xlsx files, cell styles. If rows were deleted or reordered, a plain workbook is exported instead."
+        >
+          <input
+            type="checkbox"
+            checked={keepOriginalLayout}
+            onChange={(e) => onKeepOriginalLayoutChange?.(e.target.checked)}
+          />
+          Keep layout
+        </label>
+      )}
+
       <button
-        onClick={() => saveToExcel(data, fileName, format)}
+        onClick={() => onExport(fileName, format)}
         className="flex cursor-pointer items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition-colors hover:bg-blue-500 active:scale-95"
       >
         <DownloadIcon className="h-4 w-4" />
         Download
       </button>
+      {onExportOrder && (
+        <button
+          onClick={() => onExportOrder(fileName, format)}
+          className="flex cursor-pointer items-center gap-2 rounded-lg border border-emerald-700/50 bg-emerald-900/20 px-3 py-2 text-sm font-medium text-emerald-300 transition-colors hover:bg-emerald-900/40 active:scale-95"
+          title="Download and record each part's price in the price history as paid for this project"
+        >
+          <DownloadIcon className="h-4 w-4" />
+          Export Order
+        </button>
+      )}
     </div>
   );
 };
@@ -1,4 +1,3 @@
-import { type Content } from "@google/genai";
 import { useEffect, useRef, useState, type ChangeEvent } from "react";
 import {
   PaperClipIcon,
@@ -9,7 +8,9 @@ import {
 } from "~/components/icons";
 import { useGemini } from "~/hooks/useGemini";
 import { cn } from "~/utils/cn";
-import { generateContentWithFallback, isAiEnabled } from "~/utils/geminiApi";
+import { describeLlmError, LlmError } from "~/utils/llm/errors";
+import type { LlmContent, LlmPart } from "~/utils/llm/types";
+import { generateContentWithFallback } from "~/utils/llmApi";
 import ModelSelector from "./ModelSelector";
 
 // --- Component Logic ---
@@ -66,7 +67,13 @@ const GeminiChat = ({
   const [prompt, setPrompt] = useState("");
   const [loading, setLoading] = useState(false);
 
-  const { availableModels, currentModel, setCurrentModel } = useGemini();
+  const {
+    availableModels,
+    currentModel,
+    setCurrentModel,
+    isAiEnabled,
+    capabilities,
+  } = useGemini();
 
   const [selectedFiles, setSelectedFiles] = useState<
     { file: File; base64: string; textContent?: string }[]
@@ -179,14 +186,14 @@ const GeminiChat = ({
         - If simple edit: set "type": "api", "endpoint": "User Instruction", "reasoning": "User explicitly asked to set X to Y".
       `;
 
-      const historyContents: Content[] = messages
+      const historyContents: LlmContent[] = messages
         .filter((msg) => msg.role !== "system")
         .map((msg) => ({
           role: msg.role === "model" ? "model" : "user",
           parts: [{ text: msg.text }],
         }));
 
-      const currentParts: any[] = [];
+      const currentParts: LlmPart[] = [];
       filesToSend.forEach((f) => {
         if (f.textContent) {
           currentParts.push({
@@ -203,7 +210,7 @@ const GeminiChat = ({
       });
       if (userMessage.text) currentParts.push({ text: userMessage.text });
 
-      const fullContents: Content[] = [
+      const fullContents: LlmContent[] = [
         ...historyContents,
         { role: "user" as const, parts: currentParts },
       ];
@@ -213,17 +220,20 @@ const GeminiChat = ({
         availableModels,
         systemInstruction,
         fullContents,
-        (failed, next) => {
-          setMessages((prev) => [
-            ...prev,
-            {
-              id: Date.now().toString(),
-              role: "system",
-              text: `⚠️ Model ${failed} failed. Switching to ${next}...`,
-            },
-          ]);
+        {
+          onRetry: (failed, next, reason) => {
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: Date.now().toString(),
+                role: "system",
+                text: `⚠️ ${describeLlmError(failed, reason)}. Switching to ${next}...`,
+              },
+            ]);
+          },
+          config: { temperature: 0.0 },
+          usage: { operation: "chat" },
         },
-        { temperature: 0.0 },
       );
 
       let finalResponseText = responseText;
@@ -311,7 +321,10 @@ const GeminiChat = ({
         {
           id: (Date.now() + 1).toString(),
           role: "model",
-          text: "Sorry, I encountered an error. All models may be busy.",
+          text:
+            err instanceof LlmError
+              ? `Sorry, I encountered an error. ${err.message}`
+              : "Sorry, I encountered an error. All models may be busy.",
           isError: true,
         },
       ]);
@@ -362,7 +375,7 @@ const GeminiChat = ({
       </div>
 
       {/* Messages Area */}
-      <div className="scrollbar-thin scrollbar-track-slate-800 scrollbar-thumb-slate-600 flex-1 overflow-y-auto bg-slate-800/50 p-4">
+      <div className="flex-1 scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-slate-800 overflow-y-auto bg-slate-800/50 p-4">
         {!isAiEnabled ? (
           <div className="flex h-full flex-col items-center justify-center gap-2 text-center text-slate-500">
             <SparklesIcon className="h-8 w-8 opacity-30" />
@@ -370,7 +383,7 @@ const GeminiChat = ({
               AI Features Disabled
             </p>
             <p className="max-w-[200px] text-xs">
-              Please configure your API key in the .env file to enable Gemini.
+              Please configure an AI provider on the server to enable Gemini.
             </p>
           </div>
         ) : (
@@ -476,6 +489,11 @@ const GeminiChat = ({
           <input
             type="file"
             multiple
+            accept={
+              capabilities.fileInput
+                ? undefined
+                : "image/*,text/*,.md,.csv,.json"
+            }
             ref={fileInputRef}
             className="hidden"
             onChange={handleFileSelect}
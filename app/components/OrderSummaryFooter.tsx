@@ -0,0 +1,48 @@
+import { cn } from "~/utils/cn";
+import { formatMoney } from "~/utils/currencyUtils";
+import type { OrderSummary } from "~/utils/orderUtils";
+import type { PriceBasis } from "~/utils/quotingConfigUtils";
+
+interface OrderSummaryFooterProps {
+  summary: OrderSummary;
+  priceBasis: PriceBasis;
+  className?: string;
+}
+
+const OrderSummaryFooter = ({
+  summary,
+  priceBasis,
+  className,
+}: OrderSummaryFooterProps) => (
+  <div
+    className={cn(
+      "flex items-center justify-end gap-6 rounded-lg border border-slate-700 bg-slate-800 px-4 py-2 text-xs text-slate-400",
+      className,
+    )}
+  >
+    <span>
+      <span className="font-semibold text-slate-200">{summary.itemCount}</span>{" "}
+      items
+    </span>
+    <span className={cn(summary.unquotedCount > 0 && "text-amber-300")}>
+      <span className="font-semibold">{summary.unquotedCount}</span> unquoted
+    </span>
+    {summary.unconvertedCount > 0 && (
+      <span
+        className="text-amber-300"
+        title="Add exchange rates for their currencies in the quoting settings"
+      >
+        <span className="font-semibold">{summary.unconvertedCount}</span> not in
+        total (no exchange rate)
+      </span>
+    )}
+    <span>
+      Grand total ({priceBasis}):{" "}
+      <span className="text-sm font-semibold text-emerald-300">
+        {formatMoney(summary.grandTotal)}
+      </span>
+    </span>
+  </div>
+);
+
+export default OrderSummaryFooter;
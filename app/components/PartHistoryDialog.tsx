@@ -0,0 +1,119 @@
+import { cn } from "~/utils/cn";
+import {
+  convertMoney,
+  formatMoney,
+  type ExchangeRates,
+} from "~/utils/currencyUtils";
+import type { PriceHistoryEntry } from "~/utils/priceHistoryUtils";
+import { XIcon } from "./icons";
+
+interface PartHistoryDialogProps {
+  entries: PriceHistoryEntry[]; // Oldest first
+  currentProject: string;
+  displayCurrency: string;
+  exchangeRates: ExchangeRates;
+  onClose: () => void;
+}
+
+const PartHistoryDialog = ({
+  entries,
+  currentProject,
+  displayCurrency,
+  exchangeRates,
+  onClose,
+}: PartHistoryDialogProps) => {
+  const latest = entries[entries.length - 1];
+  const projects = [...new Set(entries.map((entry) => entry.project))];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
+      <div className="relative flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-white"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+
+        <h3 className="text-lg font-bold text-slate-100">Price History</h3>
+        <p className="mt-1 text-sm text-slate-400">
+          {latest?.partNumber}
+          {latest?.manufacturer && ` · ${latest.manufacturer}`} · used in{" "}
+          {projects.length} project(s)
+        </p>
+
+        <div className="mt-4 flex-1 overflow-y-auto rounded border border-slate-700">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-slate-900 text-xs text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Date</th>
+                <th className="px-3 py-2 font-medium">Project</th>
+                <th className="px-3 py-2 font-medium">Event</th>
+                <th className="px-3 py-2 font-medium">Supplier</th>
+                <th className="px-3 py-2 text-right font-medium">
+                  Price/Unit (net)
+                </th>
+                <th className="px-3 py-2 text-right font-medium">Qty</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {[...entries].reverse().map((entry) => (
+                <tr
+                  key={`${entry.kind}|${entry.recordedAt}|${entry.project}`}
+                  className={cn(
+                    entry.project === currentProject && "bg-slate-700/20",
+                  )}
+                >
+                  <td className="px-3 py-2 whitespace-nowrap text-slate-400">
+                    {new Date(entry.recordedAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-3 py-2 text-slate-200">
+                    {entry.project}
+                    {entry.project === currentProject && (
+                      <span className="ml-2 text-xs text-slate-500">
+                        (this file)
+                      </span>
+                    )}
+                  </td>
+                  <td
+                    className={cn(
+                      "px-3 py-2",
+                      entry.kind === "order"
+                        ? "text-emerald-300"
+                        : "text-slate-300",
+                    )}
+                  >
+                    {entry.kind === "order" ? "Ordered" : "Quoted"}
+                  </td>
+                  <td className="px-3 py-2 text-slate-300">
+                    {entry.supplier || "Unknown"}
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-200">
+                    {formatMoney(
+                      convertMoney(
+                        entry.netPricePerUnit,
+                        displayCurrency,
+                        exchangeRates,
+                      ) ?? entry.netPricePerUnit,
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-300">
+                    {entry.quantity ?? ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-slate-300">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartHistoryDialog;
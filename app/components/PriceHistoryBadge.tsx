@@ -0,0 +1,66 @@
+import { cn } from "~/utils/cn";
+import type { Money } from "~/utils/currencyUtils";
+import type { PartHistorySummary, PriceTrend } from "~/utils/priceHistoryUtils";
+
+interface PriceHistoryBadgeProps {
+  summary: PartHistorySummary;
+  formatPrice: (price: Money) => string;
+  onClick: () => void;
+}
+
+const TREND_ARROWS: Record<PriceTrend, string> = {
+  up: "↑",
+  down: "↓",
+  flat: "→",
+};
+
+const describe = (
+  label: string,
+  entry?: { recordedAt: number; project: string },
+) =>
+  entry &&
+  `${label} ${new Date(entry.recordedAt).toLocaleDateString()} in ${entry.project}`;
+
+// Last paid (net) with the price trend, and the last quote below it
+const PriceHistoryBadge = ({
+  summary: { lastPaid, lastQuoted, trend, change },
+  formatPrice,
+  onClick,
+}: PriceHistoryBadgeProps) => (
+  <button
+    onClick={onClick}
+    className="cursor-pointer rounded px-1 py-0.5 text-left transition-colors hover:bg-slate-700"
+    title={[
+      describe("Last paid", lastPaid),
+      describe("Last quoted", lastQuoted),
+      change !== null &&
+        `Latest change ${change > 0 ? "+" : ""}${(change * 100).toFixed(1)}%`,
+      "Click for the full history",
+    ]
+      .filter(Boolean)
+      .join("\n")}
+  >
+    <span className="font-medium text-slate-200">
+      {lastPaid ? formatPrice(lastPaid.netPricePerUnit) : "–"}
+    </span>
+    {trend && (
+      <span
+        className={cn(
+          "ml-1",
+          trend === "up" && "text-red-400",
+          trend === "down" && "text-emerald-400",
+          trend === "flat" && "text-slate-500",
+        )}
+      >
+        {TREND_ARROWS[trend]}
+      </span>
+    )}
+    {lastQuoted && (
+      <span className="block text-[10px] text-slate-500">
+        quoted {formatPrice(lastQuoted.netPricePerUnit)}
+      </span>
+    )}
+  </button>
+);
+
+export default PriceHistoryBadge;
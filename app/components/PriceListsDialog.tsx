@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { formatMoney } from "~/utils/currencyUtils";
+import {
+  searchPriceLists,
+  type PriceList,
+} from "~/utils/suppliers/priceListStore";
+import { BookIcon, TrashIcon, XIcon } from "./icons";
+
+interface PriceListsDialogProps {
+  lists: PriceList[];
+  onImport: (file: File) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<PriceList["format"], string> = {
+  bmecat: "BMEcat",
+  table: "Price table",
+};
+
+const PriceListsDialog = ({
+  lists,
+  onImport,
+  onDelete,
+  onClose,
+}: PriceListsDialogProps) => {
+  const [query, setQuery] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string>();
+  const results = searchPriceLists(lists, query);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setError(undefined);
+    try {
+      await onImport(file);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : `Could not import ${file.name}.`,
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
+      <div className="relative flex max-h-[90vh] w-full max-w-4xl flex-col rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-white"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+
+        <div className="flex items-center gap-2">
+          <BookIcon className="h-5 w-5 text-emerald-400" />
+          <h3 className="text-lg font-bold text-slate-100">Price Lists</h3>
+        </div>
+        <p className="mt-1 text-sm text-slate-400">
+          Matching parts are priced from these first; only the rest are searched
+          on the web.
+        </p>
+
+        <div className="mt-4 rounded border border-slate-700">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-900 text-xs text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Supplier</th>
+                <th className="px-3 py-2 font-medium">File</th>
+                <th className="px-3 py-2 text-right font-medium">Articles</th>
+                <th className="px-3 py-2 font-medium">Imported</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {lists.map((list) => (
+                <tr key={list.id}>
+                  <td className="px-3 py-2 font-medium text-slate-200">
+                    {list.supplier}
+                  </td>
+                  <td className="px-3 py-2 text-slate-300">
+                    {list.fileName}
+                    <span className="ml-2 text-xs text-slate-500">
+                      {FORMAT_LABELS[list.format]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-300">
+                    {list.entries.length}
+                  </td>
+                  <td className="px-3 py-2 text-slate-400">
+                    {new Date(list.importedAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => onDelete(list.id)}
+                      className="cursor-pointer text-slate-500 hover:text-red-400"
+                      title={`Delete ${list.fileName}`}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {lists.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-3 text-slate-500">
+                    No price lists imported yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-3 flex items-center gap-3">
+          <label className="cursor-pointer rounded border border-dashed border-slate-600 px-3 py-1.5 text-sm text-slate-300 transition-colors hover:bg-slate-700">
+            {isImporting ? "Importing..." : "Import BMEcat or CSV price list"}
+            <input
+              type="file"
+              accept=".xml,.csv,.xlsx,.xls,.ods"
+              className="hidden"
+              disabled={isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImport(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {error && <span className="text-sm text-red-300">{error}</span>}
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search part number, EAN or description"
+          className="mt-4 w-full rounded border border-slate-600 bg-slate-900 px-3 py-1.5 text-sm text-slate-200 outline-none focus:border-blue-500"
+        />
+        {query && (
+          <div className="mt-2 flex-1 overflow-y-auto rounded border border-slate-700">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-slate-900 text-xs text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Supplier</th>
+                  <th className="px-3 py-2 font-medium">Article</th>
+                  <th className="px-3 py-2 font-medium">Part No.</th>
+                  <th className="px-3 py-2 font-medium">Description</th>
+                  <th className="px-3 py-2 text-right font-medium">
+                    Price/Unit
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium">Pack</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {results.map(({ list, entry: { article, offer } }) => (
+                  <tr key={`${list.id}|${article.articleNumber}`}>
+                    <td className="px-3 py-2 text-slate-300">
+                      {list.supplier}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {article.articleNumber}
+                    </td>
+                    <td className="px-3 py-2 text-slate-200">
+                      {article.partNumber}
+                      {article.ean && (
+                        <span className="block text-xs text-slate-500">
+                          EAN {article.ean}
+                        </span>
+                      )}
+                    </td>
+                    <td className="max-w-[240px] truncate px-3 py-2 text-slate-400">
+                      {[article.manufacturer, article.description]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-200">
+                      {formatMoney(offer.unitPrice)}
+                      <span className="block text-xs text-slate-500">
+                        {offer.pricesIncludeVat ? "gross" : "net"}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-300">
+                      {offer.packQuantity}
+                    </td>
+                  </tr>
+                ))}
+                {results.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-3 text-slate-500">
+                      No matching articles.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-slate-300">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceListsDialog;
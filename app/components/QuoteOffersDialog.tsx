@@ -0,0 +1,204 @@
+import { incomparableOffers, type QuoteOffer } from "~/utils/aiQuotingUtils";
+import { NOT_AVAILABLE } from "~/utils/aiSchemaUtils";
+import { cn } from "~/utils/cn";
+import {
+  convertMoney,
+  formatMoney,
+  type ExchangeRates,
+  type Money,
+} from "~/utils/currencyUtils";
+import { computeOrderLine, priceBreakFor } from "~/utils/orderUtils";
+import { WarningIcon, XIcon } from "./icons";
+
+interface QuoteOffersDialogProps {
+  rowLabel: string;
+  offers: QuoteOffer[];
+  quantity: number; // Pieces needed for the whole build
+  displayCurrency: string;
+  exchangeRates: ExchangeRates;
+  selected: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+const QuoteOffersDialog = ({
+  rowLabel,
+  offers,
+  quantity,
+  displayCurrency,
+  exchangeRates,
+  selected,
+  onSelect,
+  onClose,
+}: QuoteOffersDialogProps) => {
+  const basis = offers[0]?.priceBasis === "gross" ? "gross" : "net";
+  const formatPrice = (price: Money | null) =>
+    price
+      ? formatMoney(
+          convertMoney(price, displayCurrency, exchangeRates) ?? price,
+        )
+      : NOT_AVAILABLE;
+  const incomparable = incomparableOffers(offers, exchangeRates);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
+      <div className="relative flex max-h-[90vh] w-full max-w-4xl flex-col rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-white"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+
+        <h3 className="text-lg font-bold text-slate-100">Compare Offers</h3>
+        <p className="mt-1 truncate text-sm text-slate-400" title={rowLabel}>
+          {rowLabel}
+        </p>
+
+        <div className="mt-4 flex-1 overflow-y-auto rounded border border-slate-700">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-slate-900 text-xs text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Supplier</th>
+                <th className="px-3 py-2 text-right font-medium">
+                  Price/Unit ({basis})
+                </th>
+                <th className="px-3 py-2 text-right font-medium">Total</th>
+                <th className="px-3 py-2 text-right font-medium">Pack</th>
+                <th className="px-3 py-2 font-medium">Price Breaks</th>
+                <th className="px-3 py-2 text-right font-medium">
+                  For {quantity} pcs
+                </th>
+                <th className="px-3 py-2 font-medium">Delivery</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/50">
+              {offers.map((offer, i) => {
+                const line = computeOrderLine(quantity, offer);
+                const tier = line && priceBreakFor(offer, line.orderQuantity);
+                return (
+                  <tr
+                    key={i}
+                    className={cn(i === selected && "bg-emerald-900/20")}
+                  >
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-slate-200">
+                        {offer.supplier || "Unknown supplier"}
+                      </div>
+                      {offer.origin === "catalog" && (
+                        <span className="text-xs text-emerald-400">
+                          Catalog price
+                          {offer.stock !== null && ` · ${offer.stock} in stock`}
+                        </span>
+                      )}
+                      {offer.sourceUrl &&
+                      offer.urlGrounding === "ungrounded" ? (
+                        <span
+                          className="flex max-w-[260px] items-center gap-1 text-xs text-red-300"
+                          title={`${offer.sourceUrl} was not among the search results`}
+                        >
+                          <WarningIcon className="h-3.5 w-3.5 shrink-0" />
+                          <span className="truncate line-through">
+                            {offer.sourceUrl}
+                          </span>
+                        </span>
+                      ) : offer.sourceUrl ? (
+                        <a
+                          href={offer.sourceUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block max-w-[260px] truncate text-xs text-blue-400 hover:underline"
+                          title={offer.sourceUrl}
+                        >
+                          {offer.sourceUrl}
+                        </a>
+                      ) : (
+                        <span className="text-xs text-slate-500">No link</span>
+                      )}
+                      {offer.urlGrounding === "same-site" && (
+                        <span
+                          className="block text-xs text-amber-300"
+                          title="Search returned other pages of this shop, not this one. Check that it's the right product."
+                        >
+                          Only the shop's site was found
+                        </span>
+                      )}
+                      {offer.reasoning && (
+                        <p className="mt-1 max-w-[260px] text-xs text-slate-400">
+                          {offer.reasoning}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-200">
+                      {formatPrice(offer.pricePerUnit)}
+                      {incomparable.includes(i) && (
+                        <span
+                          className="block text-xs whitespace-nowrap text-amber-300"
+                          title={`Add a ${offer.pricePerUnit?.currency} exchange rate in the quoting settings to compare this offer`}
+                        >
+                          No rate, not compared
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-300">
+                      {formatPrice(offer.totalPrice)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-300">
+                      {String(offer.packQuantity)}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-slate-400">
+                      {offer.priceBreaks?.length ? (
+                        offer.priceBreaks.map((t) => (
+                          <div
+                            key={t.minQuantity}
+                            className={cn(
+                              "whitespace-nowrap",
+                              tier === t && "font-medium text-emerald-300",
+                            )}
+                          >
+                            {t.minQuantity}+: {formatPrice(t.pricePerUnit)}
+                          </div>
+                        ))
+                      ) : (
+                        <span className="text-slate-500">None</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right font-medium text-slate-200">
+                      {formatPrice(line?.lineTotal ?? null)}
+                    </td>
+                    <td className="px-3 py-2 text-slate-300">
+                      {offer.estimatedDelivery}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {i === selected ? (
+                        <span className="text-xs font-medium text-emerald-400">
+                          Selected
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onSelect(i)}
+                          className="cursor-pointer rounded border border-slate-600 px-2 py-1 text-xs whitespace-nowrap text-slate-300 transition-colors hover:bg-slate-700 hover:text-white"
+                        >
+                          Use this offer
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-slate-300">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteOffersDialog;
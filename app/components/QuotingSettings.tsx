@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { cn } from "~/utils/cn";
+import { clearQuoteCache } from "~/utils/quoteCacheUtils";
+import {
+  MARKET_PRESETS,
+  presetConfig,
+  type MarketCode,
+  type PriceBasis,
+  type QuotingConfig,
+  type SupplierLookup,
+} from "~/utils/quotingConfigUtils";
+import { CogIcon, TrashIcon, XIcon } from "./icons";
+
+const PRICE_BASES: { value: PriceBasis; label: string }[] = [
+  { value: "net", label: "Net (excl. VAT)" },
+  { value: "gross", label: "Gross (incl. VAT)" },
+];
+
+const SUPPLIER_LOOKUPS: { value: SupplierLookup; label: string }[] = [
+  { value: "before-search", label: "Then search the web" },
+  { value: "instead-of-search", label: "Catalogs only" },
+];
+
+const inputClass =
+  "w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500";
+
+interface QuotingSettingsProps {
+  config: QuotingConfig;
+  onChange: (config: QuotingConfig) => void;
+  priceListCount: number;
+  onManagePriceLists: () => void;
+  className?: string;
+}
+
+const QuotingSettings = ({
+  config,
+  onChange,
+  priceListCount,
+  onManagePriceLists,
+  className,
+}: QuotingSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [newCurrency, setNewCurrency] = useState("");
+  const [newApi, setNewApi] = useState({ label: "", baseUrl: "" });
+  // Edited as free text so commas can be typed; parsed on blur
+  const [suppliersText, setSuppliersText] = useState("");
+  useEffect(
+    () => setSuppliersText(config.suppliers.join(", ")),
+    [config.suppliers],
+  );
+
+  const update = (changes: Partial<QuotingConfig>) =>
+    onChange({ ...config, ...changes });
+
+  const setRate = (currency: string, rate: number | null) => {
+    const exchangeRates = { ...config.exchangeRates };
+    if (rate === null) delete exchangeRates[currency];
+    else exchangeRates[currency] = rate;
+    update({ exchangeRates });
+  };
+
+  const addCurrency = () => {
+    const code = newCurrency.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(code) && !(code in config.exchangeRates)) {
+      setRate(code, 1);
+    }
+    setNewCurrency("");
+  };
+
+  const addSupplierApi = () => {
+    const baseUrl = newApi.baseUrl.trim().replace(/\/+$/, "");
+    if (!/^https?:\/\//i.test(baseUrl)) return;
+    update({
+      supplierApis: [
+        ...config.supplierApis.filter((api) => api.baseUrl !== baseUrl),
+        { label: newApi.label.trim(), baseUrl },
+      ],
+    });
+    setNewApi({ label: "", baseUrl: "" });
+  };
+
+  const commitSuppliers = () =>
+    update({
+      suppliers: suppliersText
+        .split(/[,\n]/)
+        .map((s) => s.trim())
+        .filter(Boolean),
+    });
+
+  return (
+    <div className={cn("relative", className)}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex cursor-pointer items-center gap-1.5 rounded-lg border border-slate-700 bg-slate-800 px-2 py-2 text-xs font-medium text-slate-300 transition-colors hover:bg-slate-700 hover:text-white"
+        title="Quoting market, suppliers and VAT"
+      >
+        <CogIcon className="h-4 w-4" />
+        {config.market} · {config.priceBasis === "net" ? "Net" : "Gross"}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 z-50 mt-2 w-80 space-y-3 rounded-lg border border-slate-700 bg-slate-800 p-3 text-xs shadow-2xl">
+          <span className="font-semibold tracking-wider text-slate-400 uppercase">
+            Quoting
+          </span>
+
+          <label className="block space-y-1">
+            <span className="text-slate-500">Market</span>
+            <select
+              value={config.market}
+              onChange={(e) =>
+                onChange(presetConfig(e.target.value as MarketCode, config))
+              }
+              className={cn(inputClass, "cursor-pointer")}
+            >
+              {Object.entries(MARKET_PRESETS).map(([code, { country }]) => (
+                <option key={code} value={code}>
+                  {country}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-slate-500">
+              Preferred suppliers (first is searched first)
+            </span>
+            <textarea
+              value={suppliersText}
+              onChange={(e) => setSuppliersText(e.target.value)}
+              onBlur={commitSuppliers}
+              rows={2}
+              className={cn(inputClass, "resize-none")}
+            />
+          </label>
+
+          <div className="space-y-1">
+            <span className="block text-slate-500">
+              Supplier catalogs (exact prices, tried first)
+            </span>
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onManagePriceLists();
+              }}
+              className="w-full cursor-pointer rounded border border-slate-600 px-2 py-1 text-left text-slate-300 transition-colors hover:bg-slate-700"
+            >
+              Price lists ({priceListCount})…
+            </button>
+            {config.supplierApis.map((api) => (
+              <div key={api.baseUrl} className="flex items-center gap-1">
+                <span
+                  className="flex-1 truncate text-slate-300"
+                  title={api.baseUrl}
+                >
+                  {api.label || api.baseUrl}
+                </span>
+                <button
+                  onClick={() =>
+                    update({
+                      supplierApis: config.supplierApis.filter(
+                        (other) => other.baseUrl !== api.baseUrl,
+                      ),
+                    })
+                  }
+                  className="cursor-pointer text-slate-500 hover:text-red-400"
+                  title={`Remove ${api.label || api.baseUrl}`}
+                >
+                  <XIcon className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={newApi.label}
+                onChange={(e) =>
+                  setNewApi((api) => ({ ...api, label: e.target.value }))
+                }
+                placeholder="API name"
+                className={cn(inputClass, "w-20")}
+              />
+              <input
+                type="url"
+                value={newApi.baseUrl}
+                onChange={(e) =>
+                  setNewApi((api) => ({ ...api, baseUrl: e.target.value }))
+                }
+                onKeyDown={(e) => e.key === "Enter" && addSupplierApi()}
+                placeholder="https://…"
+                className={inputClass}
+              />
+              <button
+                onClick={addSupplierApi}
+                className="cursor-pointer rounded border border-slate-600 px-2 text-slate-400 transition-colors hover:bg-slate-700 hover:text-white"
+              >
+                Add
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {SUPPLIER_LOOKUPS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => update({ supplierLookup: value })}
+                  className={cn(
+                    "flex-1 cursor-pointer rounded border px-2 py-1 transition-colors",
+                    config.supplierLookup === value
+                      ? "border-blue-500/60 bg-blue-900/30 text-blue-200"
+                      : "border-slate-600 text-slate-400 hover:bg-slate-700",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <label className="block space-y-1">
+              <span className="text-slate-500">Language</span>
+              <input
+                type="text"
+                value={config.language}
+                onChange={(e) => update({ language: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-slate-500">Currency</span>
+              <input
+                type="text"
+                value={config.currency}
+                onChange={(e) =>
+                  update({ currency: e.target.value.toUpperCase() })
+                }
+                maxLength={3}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-slate-500">VAT %</span>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={config.vatRate}
+                onChange={(e) =>
+                  update({ vatRate: Math.max(0, Number(e.target.value)) })
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-slate-500">Write prices as</span>
+            <div className="flex gap-1">
+              {PRICE_BASES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => update({ priceBasis: value })}
+                  className={cn(
+                    "flex-1 cursor-pointer rounded border px-2 py-1 transition-colors",
+                    config.priceBasis === value
+                      ? "border-blue-500/60 bg-blue-900/30 text-blue-200"
+                      : "border-slate-600 text-slate-400 hover:bg-slate-700",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center justify-between gap-2">
+              <span className="text-slate-500">Show prices in</span>
+              <select
+                value={config.displayCurrency}
+                onChange={(e) => update({ displayCurrency: e.target.value })}
+                className={cn(inputClass, "w-24 cursor-pointer")}
+              >
+                {Object.keys(config.exchangeRates).map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <span className="block text-slate-500">
+              Exchange rates (per 1 EUR)
+            </span>
+            <div className="grid grid-cols-2 gap-1">
+              {Object.entries(config.exchangeRates).map(([code, rate]) => (
+                <div key={code} className="flex items-center gap-1">
+                  <span className="w-8 text-slate-400">{code}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.0001}
+                    value={rate}
+                    disabled={code === "EUR"}
+                    onChange={(e) =>
+                      setRate(code, Math.max(0, Number(e.target.value)))
+                    }
+                    className={cn(inputClass, "disabled:opacity-50")}
+                  />
+                  {code !== "EUR" && code !== config.displayCurrency && (
+                    <button
+                      onClick={() => setRate(code, null)}
+                      className="cursor-pointer text-slate-500 hover:text-red-400"
+                      title={`Remove ${code}`}
+                    >
+                      <XIcon className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <input
+                type="text"
+                value={newCurrency}
+                onChange={(e) => setNewCurrency(e.target.value)}
+                onBlur={addCurrency}
+                onKeyDown={(e) => e.key === "Enter" && addCurrency()}
+                placeholder="Add (e.g. USD)"
+                maxLength={3}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-slate-500">
+              Quotes valid for (days, 0 = never stale)
+            </span>
+            <input
+              type="number"
+              min={0}
+              value={config.quoteValidityDays}
+              onChange={(e) =>
+                update({
+                  quoteValidityDays: Math.max(0, Number(e.target.value)),
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+
+          <div className="flex items-end gap-2">
+            <label className="block flex-1 space-y-1">
+              <span className="text-slate-500">
+                Reuse quotes for (hours, 0 = off)
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={config.cacheTtlHours}
+                onChange={(e) =>
+                  update({
+                    cacheTtlHours: Math.max(0, Number(e.target.value)),
+                  })
+                }
+                className={inputClass}
+              />
+            </label>
+            <button
+              onClick={() => {
+                setCacheCleared(false);
+                clearQuoteCache()
+                  .then(() => setCacheCleared(true))
+                  .catch((err) => console.warn("Failed to clear cache", err));
+              }}
+              className="flex cursor-pointer items-center gap-1 rounded border border-slate-600 px-2 py-1 text-slate-400 transition-colors hover:bg-slate-700 hover:text-red-400"
+              title="Forget all cached quotes"
+            >
+              <TrashIcon className="h-3.5 w-3.5" />
+              {cacheCleared ? "Cleared" : "Clear cache"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotingSettings;
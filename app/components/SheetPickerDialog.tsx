@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { cn } from "~/utils/cn";
+import type { WorkbookSheet } from "~/utils/excelUtils";
+import { XIcon } from "./icons";
+
+interface SheetPickerDialogProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  initialSelection: string[];
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+const SheetPickerDialog = ({
+  fileName,
+  sheets,
+  initialSelection,
+  onConfirm,
+  onCancel,
+}: SheetPickerDialogProps) => {
+  const [selected, setSelected] = useState<string[]>(initialSelection);
+
+  const toggle = (name: string) =>
+    setSelected((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name],
+    );
+
+  // Keep workbook order regardless of click order
+  const selectedInOrder = sheets
+    .map((s) => s.name)
+    .filter((name) => selected.includes(name));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
+      <div className="relative flex max-h-[90vh] w-full max-w-md flex-col rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-slate-400 hover:text-white"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+
+        <h3 className="text-lg font-bold text-slate-100">Choose Sheets</h3>
+        <p className="mt-1 text-sm text-slate-400">
+          <span className="font-medium text-slate-200">{fileName}</span> has{" "}
+          {sheets.length} sheets. Pick one to open, or several to combine them
+          into one grid with a "Sheet" column.
+        </p>
+
+        <div className="mt-4 flex-1 space-y-1 overflow-y-auto">
+          {sheets.map(({ name, rows }) => {
+            const isEmpty = rows.length === 0;
+            return (
+              <label
+                key={name}
+                className={cn(
+                  "flex cursor-pointer items-center gap-3 rounded border border-slate-700 px-3 py-2 text-sm transition-colors hover:bg-slate-700/50",
+                  selected.includes(name) &&
+                    "border-blue-500/60 bg-blue-900/20",
+                  isEmpty && "cursor-not-allowed opacity-40",
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(name)}
+                  disabled={isEmpty}
+                  onChange={() => toggle(name)}
+                />
+                <span className="flex-1 truncate text-slate-200">{name}</span>
+                <span className="text-xs text-slate-500">
+                  {isEmpty ? "empty" : `${rows.length - 1} rows`}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-300">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(selectedInOrder)}
+            disabled={selectedInOrder.length === 0}
+            className="rounded bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {selectedInOrder.length > 1
+              ? `Combine ${selectedInOrder.length} sheets`
+              : "Open"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPickerDialog;
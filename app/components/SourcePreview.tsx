@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+import { findQuoteItems } from "~/utils/citationUtils";
+import { cn } from "~/utils/cn";
+import {
+  getPdfDocument,
+  getPdfPageTextItems,
+  isPdfFile,
+} from "~/utils/pdfUtils";
+import { ChevronLeftIcon, ChevronRightIcon } from "./icons";
+
+const RENDER_SCALE = 1.5;
+
+// Position on the rendered page, in percent so it follows the canvas' CSS size
+type Highlight = { left: number; top: number; width: number; height: number };
+
+interface SourcePreviewProps {
+  file: File;
+  page: number; // The cited page (1-based)
+  quote?: string;
+  suggestedPage?: number; // Where local verification actually found the quote
+  className?: string;
+}
+
+const SourcePreview = ({
+  file,
+  page: citedPage,
+  quote,
+  suggestedPage,
+  className,
+}: SourcePreviewProps) => {
+  const isPdf = isPdfFile(file);
+  const [page, setPage] = useState(citedPage);
+  const [pageCount, setPageCount] = useState<number>();
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string>();
+  const [imageUrl, setImageUrl] = useState<string>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setPage(citedPage), [file, citedPage]);
+
+  useEffect(() => {
+    if (isPdf) return;
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, isPdf]);
+
+  useEffect(() => {
+    if (!isPdf) return;
+    let cancelled = false;
+    let renderTask: { cancel: () => void } | undefined;
+
+    setIsRendering(true);
+    setError(undefined);
+    setHighlights([]);
+
+    (async () => {
+      const pdf = await getPdfDocument(file);
+      if (cancelled) return;
+      setPageCount(pdf.numPages);
+
+      const pageNumber = Math.min(Math.max(1, page), pdf.numPages);
+      const pdfPage = await pdf.getPage(pageNumber);
+      const viewport = pdfPage.getViewport({
+        scale: RENDER_SCALE * (window.devicePixelRatio || 1),
+      });
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+      if (cancelled || !canvas || !context) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const task = pdfPage.render({ canvasContext: context, viewport });
+      renderTask = task;
+      await task.promise;
+      if (cancelled || !quote) return;
+
+      const items = await getPdfPageTextItems(file, pageNumber);
+      const matches = findQuoteItems(
+        quote,
+        items.map((item) => item.text),
+      );
+      if (cancelled) return;
+      setHighlights(
+        matches.map((i) => {
+          const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(
+            items[i].rect,
+          );
+          return {
+            left: (Math.min(x1, x2) / viewport.width) * 100,
+            top: (Math.min(y1, y2) / viewport.height) * 100,
+            width: (Math.abs(x2 - x1) / viewport.width) * 100,
+            height: (Math.abs(y2 - y1) / viewport.height) * 100,
+          };
+        }),
+      );
+    })()
+      .catch((err) => {
+        if (cancelled) return; // Cancelled renders reject too
+        console.error("PDF preview failed", err);
+        setError("Could not render this page.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [file, isPdf, page, quote]);
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({
+      block: "center",
+      behavior: "smooth",
+    });
+  }, [highlights]);
+
+  if (!isPdf) {
+    return (
+      <div
+        className={cn(
+          "max-h-[60vh] overflow-auto rounded border border-slate-700 bg-slate-900",
+          className,
+        )}
+      >
+        {imageUrl && (
+          <img src={imageUrl} alt={file.name} className="block w-full" />
+        )}
+      </div>
+    );
+  }
+
+  const navButtonClass =
+    "cursor-pointer rounded p-1 text-slate-400 transition-colors hover:bg-slate-700 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <button
+          onClick={() => setPage((p) => p - 1)}
+          disabled={page <= 1 || isRendering}
+          className={navButtonClass}
+          title="Previous page"
+        >
+          <ChevronLeftIcon className="h-4 w-4" />
+        </button>
+        <span>
+          Page {page}
+          {pageCount && ` of ${pageCount}`}
+        </span>
+        <button
+          onClick={() => setPage((p) => p + 1)}
+          disabled={!pageCount || page >= pageCount || isRendering}
+          className={navButtonClass}
+          title="Next page"
+        >
+          <ChevronRightIcon className="h-4 w-4" />
+        </button>
+        {page !== citedPage && (
+          <button
+            onClick={() => setPage(citedPage)}
+            className="cursor-pointer text-blue-400 hover:text-blue-300"
+          >
+            Back to cited page
+          </button>
+        )}
+        {suggestedPage && page !== suggestedPage && (
+          <button
+            onClick={() => setPage(suggestedPage)}
+            className="cursor-pointer text-amber-400 hover:text-amber-300"
+          >
+            Go to page {suggestedPage} (quote found there)
+          </button>
+        )}
+        {isRendering && (
+          <span className="ml-auto h-3.5 w-3.5 animate-spin rounded-full border-2 border-slate-500/50 border-t-slate-300" />
+        )}
+        {!isRendering && quote && !error && highlights.length === 0 && (
+          <span className="ml-auto text-slate-500">
+            Quote not found on this page
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-[60vh] overflow-auto rounded border border-slate-700 bg-slate-900">
+        {error ? (
+          <p className="p-4 text-sm text-red-400">{error}</p>
+        ) : (
+          <div className="relative">
+            <canvas ref={canvasRef} className="block h-auto w-full bg-white" />
+            {highlights.map((h, i) => (
+              <div
+                key={i}
+                ref={i === 0 ? firstHighlightRef : undefined}
+                className="pointer-events-none absolute rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500"
+                style={{
+                  left: `${h.left}%`,
+                  top: `${h.top}%`,
+                  width: `${h.width}%`,
+                  height: `${h.height}%`,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourcePreview;
@@ -0,0 +1,30 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getAiUsageRecords,
+  subscribeToAiUsage,
+  summarizeAiUsage,
+} from "~/utils/aiUsageStore";
+
+const EMPTY: never[] = [];
+
+export function useAiUsage() {
+  const records = useSyncExternalStore(
+    subscribeToAiUsage,
+    getAiUsageRecords,
+    () => EMPTY,
+  );
+
+  return useMemo(() => {
+    const breakdown = summarizeAiUsage(records);
+    return {
+      records,
+      breakdown,
+      totalCostUsd: breakdown.reduce((sum, g) => sum + g.costUsd, 0),
+      totalTokens: breakdown.reduce(
+        (sum, g) => sum + g.inputTokens + g.outputTokens,
+        0,
+      ),
+      hasUnknownCost: breakdown.some((g) => g.hasUnknownCost),
+    };
+  }, [records]);
+}
@@ -1,19 +1,26 @@
 import { useEffect, useState } from "react";
-import { DEFAULT_MODEL, fetchAvailableModels } from "~/utils/geminiApi";
+import { AI_DISABLED_STATUS, fetchAiStatus } from "~/utils/llmApi";
 
 export function useGemini() {
-  const [availableModels, setAvailableModels] = useState<string[]>([
-    DEFAULT_MODEL,
-  ]);
-  const [currentModel, setCurrentModel] = useState<string>(DEFAULT_MODEL);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [currentModel, setCurrentModel] = useState<string>("");
+  // Stays disabled until the server confirms a provider is configured
+  const [status, setStatus] = useState(AI_DISABLED_STATUS);
 
   useEffect(() => {
-    fetchAvailableModels().then(setAvailableModels);
+    fetchAiStatus().then((status) => {
+      setStatus(status);
+      setAvailableModels(status.models);
+      setCurrentModel(status.defaultModel || status.models[0] || "");
+    });
   }, []);
 
   return {
     availableModels,
     currentModel,
     setCurrentModel,
+    isAiEnabled: status.isAiEnabled,
+    capabilities: status.capabilities,
+    providerName: status.provider,
   };
 }
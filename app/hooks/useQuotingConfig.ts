@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_QUOTING_CONFIG,
+  loadQuotingConfig,
+  saveQuotingConfig,
+  type QuotingConfig,
+} from "~/utils/quotingConfigUtils";
+
+export function useQuotingConfig() {
+  const [quotingConfig, setConfig] = useState(DEFAULT_QUOTING_CONFIG);
+  // localStorage is only available after hydration
+  useEffect(() => setConfig(loadQuotingConfig()), []);
+
+  const setQuotingConfig = useCallback((config: QuotingConfig) => {
+    setConfig(config);
+    saveQuotingConfig(config);
+  }, []);
+
+  return { quotingConfig, setQuotingConfig };
+}
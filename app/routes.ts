@@ -1,3 +1,8 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  index("routes/home.tsx"),
+  route("api/ai/models", "routes/api.ai.models.ts"),
+  route("api/ai/generate", "routes/api.ai.generate.ts"),
+  route("api/supplier-stub/*", "routes/api.supplier-stub.ts"),
+] satisfies RouteConfig;
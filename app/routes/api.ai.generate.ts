@@ -0,0 +1,109 @@
+import {
+  classifyLlmError,
+  LlmError,
+  type LlmErrorBody,
+  type LlmErrorKind,
+} from "~/utils/llm/errors";
+import { llmProvider } from "~/utils/llm/index.server";
+import { withEstimatedCost } from "~/utils/llm/pricing.server";
+import type {
+  JsonSchema,
+  LlmGenerateConfig,
+  LlmGenerateRequest,
+} from "~/utils/llm/types";
+import type { Route } from "./+types/api.ai.generate";
+
+// What the browser is told; the provider's own status stays in the logs
+const ERROR_STATUS: Record<LlmErrorKind, number> = {
+  rate_limit: 429,
+  quota: 429,
+  auth: 401,
+  bad_request: 400,
+  safety: 422,
+  network: 502,
+  server: 502,
+  aborted: 499, // Client closed the request
+  unknown: 500,
+};
+
+// Only these options reach the provider, which runs with the server's key
+function allowedConfig(config: unknown): LlmGenerateConfig {
+  if (typeof config !== "object" || config === null) return {};
+  const { temperature, webSearch, responseSchema } = config as Record<
+    string,
+    unknown
+  >;
+  return {
+    ...(typeof temperature === "number" && { temperature }),
+    ...(typeof webSearch === "boolean" && { webSearch }),
+    ...(typeof responseSchema === "object" &&
+      responseSchema !== null && {
+        responseSchema: responseSchema as JsonSchema,
+      }),
+  };
+}
+
+// POST /api/ai/generate
+// Runs a single generate call against one model. Fallback between models is
+// driven by the client so it can report each switch in the UI.
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+  if (!llmProvider.isConfigured()) {
+    const errorBody: LlmErrorBody = {
+      error: "AI is not configured on the server.",
+      kind: "auth",
+    };
+    return Response.json(errorBody, { status: 503 });
+  }
+
+  let body: LlmGenerateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    const errorBody: LlmErrorBody = {
+      error: "Invalid JSON body",
+      kind: "bad_request",
+    };
+    return Response.json(errorBody, { status: 400 });
+  }
+
+  if (typeof body.model !== "string" || !Array.isArray(body.contents)) {
+    const errorBody: LlmErrorBody = {
+      error: "'model' and 'contents' are required",
+      kind: "bad_request",
+    };
+    return Response.json(errorBody, { status: 400 });
+  }
+
+  try {
+    const result = await llmProvider.generate(
+      {
+        model: body.model,
+        systemInstruction: body.systemInstruction ?? "",
+        contents: body.contents,
+        config: allowedConfig(body.config),
+      },
+      request.signal,
+    );
+    return Response.json({
+      ...result,
+      usage: result.usage && withEstimatedCost(body.model, result.usage),
+    });
+  } catch (err) {
+    // Classify here, where the provider's own error shape is still known
+    const error = request.signal.aborted
+      ? new LlmError("aborted", "Request cancelled.")
+      : classifyLlmError(err);
+    if (error.kind !== "aborted") {
+      console.error(`Model ${body.model} failed:`, err);
+    }
+    const errorBody: LlmErrorBody = {
+      error: error.message || "Generation failed",
+      kind: error.kind,
+      retryAfterMs: error.retryAfterMs,
+    };
+    return Response.json(errorBody, { status: ERROR_STATUS[error.kind] });
+  }
+}
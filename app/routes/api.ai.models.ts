@@ -0,0 +1,17 @@
+import { llmProvider } from "~/utils/llm/index.server";
+import type { AiStatus } from "~/utils/llmApi";
+import type { Route } from "./+types/api.ai.models";
+
+// GET /api/ai/models
+// Reports whether AI is configured on the server, which provider backs it,
+// what that provider can do and which models it offers.
+export async function loader({}: Route.LoaderArgs) {
+  const status: AiStatus = {
+    isAiEnabled: llmProvider.isConfigured(),
+    provider: llmProvider.label,
+    defaultModel: llmProvider.defaultModel,
+    models: await llmProvider.listModels(),
+    capabilities: llmProvider.capabilities,
+  };
+  return Response.json(status);
+}
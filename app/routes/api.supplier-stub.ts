@@ -0,0 +1,28 @@
+import { stubOffer, stubSearch } from "~/utils/suppliers/stub.server";
+import type { Route } from "./+types/api.supplier-stub";
+
+// GET /api/supplier-stub/search?partNumber=…
+// GET /api/supplier-stub/offers/:articleNumber
+// A fake supplier API for the HTTP adapter; only served with SUPPLIER_STUB=1.
+export async function loader({ request, params }: Route.LoaderArgs) {
+  if (process.env.SUPPLIER_STUB !== "1") {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  const [action, articleNumber] = (params["*"] ?? "").split("/");
+  const url = new URL(request.url);
+
+  if (action === "search") {
+    const articles = stubSearch(
+      url.searchParams.get("partNumber") ?? "",
+      url.searchParams.get("manufacturer") ?? undefined,
+    );
+    return Response.json({ articles });
+  }
+  if (action === "offers" && articleNumber) {
+    const offer = stubOffer(decodeURIComponent(articleNumber));
+    return offer
+      ? Response.json(offer)
+      : Response.json({ error: "Unknown article" }, { status: 404 });
+  }
+  return Response.json({ error: "Not found" }, { status: 404 });
+}
@@ -1,12 +1,19 @@
 import {
   useCallback,
   useEffect,
+  useMemo,
+  useRef,
   useState,
   type ChangeEvent,
   type KeyboardEvent,
 } from "react";
+import AiUsageSummary from "~/components/AiUsageSummary";
+import ColumnMappingDialog from "~/components/ColumnMappingDialog";
 import ExportActions from "~/components/ExportActions";
 import GeminiChat from "~/components/GeminiChat";
+import QuoteOffersDialog from "~/components/QuoteOffersDialog";
+import QuotingSettings from "~/components/QuotingSettings";
+import SheetPickerDialog from "~/components/SheetPickerDialog";
 import {
   BanknotesIcon,
   BookIcon,
@@ -20,22 +27,109 @@ import {
   XIcon,
 } from "~/components/icons";
 import ModelSelector from "~/components/ModelSelector";
+import OrderSummaryFooter from "~/components/OrderSummaryFooter";
+import PartHistoryDialog from "~/components/PartHistoryDialog";
+import PriceHistoryBadge from "~/components/PriceHistoryBadge";
+import PriceListsDialog from "~/components/PriceListsDialog";
+import SourcePreview from "~/components/SourcePreview";
 import { useGemini } from "~/hooks/useGemini";
+import { useQuotingConfig } from "~/hooks/useQuotingConfig";
 import {
   extractDataFromReference,
+  type ChunkProgress,
   type ExtractionCitation,
 } from "~/utils/aiExtractionUtils";
-import { quoteProducts } from "~/utils/aiQuotingUtils";
+import {
+  pickBestOffer,
+  quoteProducts,
+  quoteProductsInBatches,
+  type QuotedRow,
+  type QuoteOffer,
+} from "~/utils/aiQuotingUtils";
+import { describeInvalidItems, NOT_AVAILABLE } from "~/utils/aiSchemaUtils";
+import {
+  CITATION_STATUS_LABELS,
+  verifyDocumentCitations,
+  type CitationVerification,
+} from "~/utils/citationUtils";
 import { cn } from "~/utils/cn";
 import {
+  cellText,
+  convertMoney,
+  convertMoneyCells,
+  formatMoney,
+  isMoney,
+  parseMoney,
+} from "~/utils/currencyUtils";
+import { detectBomColumns } from "~/utils/bomColumnUtils";
+import { describeLlmError, LlmError } from "~/utils/llm/errors";
+import {
+  combineSheets,
   isOfTypeSupportedExportType,
-  parseFile,
+  parseWorkbook,
+  savePatchedWorkbook,
   saveToExcel,
+  splitCombinedSheets,
   SUPPORTED_EXPORT_TYPES,
+  type SourceWorkbook,
   type SupportedExportType,
+  type WorkbookSheet,
 } from "~/utils/excelUtils";
-// Import the check
-import { isAiEnabled } from "~/utils/geminiApi";
+import {
+  computeOrderLine,
+  requiredQuantity,
+  summarizeOrder,
+} from "~/utils/orderUtils";
+import {
+  saveProvenanceWorkbook,
+  type ProvenanceSource,
+} from "~/utils/provenanceExportUtils";
+import {
+  loadMappingProfiles,
+  saveMappingProfile,
+  type MappingProfile,
+} from "~/utils/mappingProfileUtils";
+import {
+  quoteColumnHeaders,
+  type QuotingConfig,
+} from "~/utils/quotingConfigUtils";
+import { URL_GROUNDING_LABELS } from "~/utils/groundingUtils";
+import {
+  bomParts,
+  getPriceHistory,
+  orderHistoryEntries,
+  quoteHistoryEntry,
+  recordPriceHistory,
+  summarizePartHistory,
+  type PartHistorySummary,
+  type PriceHistoryEntry,
+} from "~/utils/priceHistoryUtils";
+import {
+  clearQuoteCache,
+  formatQuoteAge,
+  getCachedQuotes,
+  isQuoteStale,
+  putCachedQuotes,
+  quoteCacheKey,
+  type CachedQuote,
+} from "~/utils/quoteCacheUtils";
+import {
+  buildSpreadsheetImport,
+  isSpreadsheetFile,
+  planSpreadsheetImport,
+  type ColumnMapping,
+  type SpreadsheetImportPlan,
+} from "~/utils/spreadsheetImportUtils";
+import { createHttpSupplierAdapter } from "~/utils/suppliers/httpAdapter";
+import {
+  createPriceListAdapter,
+  deletePriceList,
+  getPriceLists,
+  importPriceList,
+  savePriceList,
+  type PriceList,
+} from "~/utils/suppliers/priceListStore";
+import type { SupplierAdapter } from "~/utils/suppliers/types";
 import type { Route } from "./+types/home";
 
 // --- Types ---
@@ -48,6 +142,24 @@ type RowSourceInfo = {
   fileId: string; // ID of the reference file OR "gemini-chat"
   fileName: string; // Display name (Filename or "Gemini Chat")
   citation: ExtractionCitation; // Flexible union type (Document vs Spreadsheet vs API)
+  verification?: CitationVerification; // Local check of document quotes
+};
+
+// Every offer found for a row; `selected` is the one written into its cells
+type RowQuoteOffers = Omit<QuotedRow, "rowId"> & {
+  selected: number;
+  cachedAt?: number; // Set when the quote was reused from the cache
+};
+
+type MergedQuote = QuotedRow & { cachedAt?: number };
+
+type QuoteColumns = {
+  total: number;
+  unit: number;
+  delivery: number;
+  packs: number;
+  orderQty: number;
+  lineTotal: number;
 };
 
 type ReferenceFile = {
@@ -56,6 +168,21 @@ type ReferenceFile = {
   colorIndex: number;
 };
 
+type SheetPicker = {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  initialSelection: string[];
+  onPick: (sheetNames: string[]) => void;
+};
+
+// A spreadsheet reference waiting for the user to confirm its column mapping
+type PendingMapping = {
+  refFile: ReferenceFile;
+  plan: SpreadsheetImportPlan;
+  targetHeaders: unknown[];
+  resolve: (mapping: ColumnMapping | null) => void;
+};
+
 export function meta({}: Route.MetaArgs) {
   return [
     { title: "Excel Editor" },
@@ -67,6 +194,8 @@ const MAX_HISTORY = 10;
 const ACCEPTED_FILE_TYPES = SUPPORTED_EXPORT_TYPES.map((t) => `.${t}`).join(
   ",",
 );
+// What a provider without document input (e.g. a local model) can still read
+const TEXT_AND_IMAGE_FILE_TYPES = "image/*,.csv,.txt,.md,.json";
 
 const FILE_CHIP_VARIANTS = [
   "border-amber-700/50 bg-amber-900/40 text-amber-100",
@@ -86,6 +215,20 @@ const FILE_CELL_VARIANTS = [
   "bg-fuchsia-900/40 text-fuchsia-100 ring-1 ring-inset ring-fuchsia-500/50",
 ];
 
+// Light versions of the on-screen colors (RRGGBB) for exported cell fills
+const FILE_CELL_FILLS = [
+  "FDE68A",
+  "A7F3D0",
+  "FECDD3",
+  "BAE6FD",
+  "DDD6FE",
+  "F5D0FE",
+];
+const USER_CELL_FILL = "BFDBFE";
+const AI_CELL_FILL = "E9D5FF";
+const LAYOUT_LOST_WARNING =
+  "Rows were deleted or reordered, so the original layout couldn't be kept. Exported a plain workbook instead.";
+
 // Helper to get domain from URL for cleaner display
 const getDomain = (url?: string) => {
   if (!url) return "AI Search";
@@ -97,39 +240,239 @@ const getDomain = (url?: string) => {
   }
 };
 
+const findColumn = (headers: unknown[], name: string) =>
+  headers.findIndex((h) =>
+    h?.toString().toLowerCase().includes(name.toLowerCase()),
+  );
+
+// Finds the quote columns, appending any that are missing to every row.
+// `quantityCol` is the BOM's required quantity, -1 when there is none.
+const ensureQuoteColumns = (data: unknown[][], config: QuotingConfig) => {
+  const columns = quoteColumnHeaders(config);
+  const headers = [...(data[0] ?? [])];
+  const find = (name: string) => {
+    const idx = findColumn(headers, name);
+    if (idx !== -1) return idx;
+    headers.push(name);
+    return headers.length - 1;
+  };
+  const cols: QuoteColumns = {
+    total: find(columns.total),
+    unit: find(columns.unit),
+    delivery: find(columns.delivery),
+    packs: find(columns.packs),
+    orderQty: find(columns.orderQty),
+    lineTotal: find(columns.lineTotal),
+  };
+  const quantityCol = detectBomColumns(headers).quantity;
+
+  const columnsAdded = headers.length > (data[0]?.length ?? 0);
+  if (!columnsAdded) return { data, cols, quantityCol, columnsAdded };
+  const padded = data.map((row, i) => {
+    if (i === 0) return headers;
+    const newRow = [...row];
+    while (newRow.length < headers.length) newRow.push("");
+    return newRow;
+  });
+  return { data: padded, cols, quantityCol, columnsAdded };
+};
+
+// Rounds the required quantity up to whole packs of the offer and writes
+// the order columns. The unit price is the price break that quantity reaches.
+const writeOrderCells = (
+  row: unknown[],
+  offer: QuoteOffer | undefined,
+  cols: QuoteColumns,
+  required: number,
+) => {
+  const line = computeOrderLine(required, offer);
+  row[cols.unit] = line?.pricePerUnit ?? offer?.pricePerUnit ?? NOT_AVAILABLE;
+  row[cols.packs] = line?.packs ?? NOT_AVAILABLE;
+  row[cols.orderQty] = line?.orderQuantity ?? NOT_AVAILABLE;
+  row[cols.lineTotal] = line?.lineTotal ?? NOT_AVAILABLE;
+};
+
+// Writes an offer into the quote columns; a row without offers gets "N/A"
+const writeOfferCells = (
+  row: unknown[],
+  offer: QuoteOffer | undefined,
+  cols: QuoteColumns,
+  required: number,
+) => {
+  row[cols.total] = offer?.totalPrice ?? NOT_AVAILABLE;
+  row[cols.delivery] = offer?.estimatedDelivery ?? NOT_AVAILABLE;
+  writeOrderCells(row, offer, cols, required);
+};
+
+// Price list offers cite the imported file and article like a spreadsheet
+const offerSource = (
+  fileId: string,
+  offer: QuoteOffer | undefined,
+  quote: Omit<QuotedRow, "rowId" | "offers">,
+): RowSourceInfo =>
+  offer?.catalogArticle
+    ? {
+        fileId,
+        fileName: offer.catalogArticle.file,
+        citation: {
+          type: "spreadsheet",
+          location: `Article ${offer.catalogArticle.articleNumber} (${offer.supplier})`,
+          reasoning: [quote.reasoning, offer.reasoning].join(" "),
+        },
+      }
+    : {
+        fileId,
+        fileName: "AI Quoting",
+        citation: {
+          type: "api",
+          endpoint: getDomain(offer?.sourceUrl || offer?.supplier),
+          reasoning: [quote.reasoning, offer?.reasoning]
+            .filter(Boolean)
+            .join(" "),
+          url: offer?.sourceUrl,
+          urlGrounding: offer?.urlGrounding,
+          searchQueries: quote.searchQueries,
+          searchResults: quote.searchResults,
+          retrievedAt: quote.quotedAt,
+          model: quote.model,
+        },
+      };
+
+// Moves per-row state (sources, offers) to the rows' new indices;
+// keptRows[newIndex] is the row's old index, or null for a new row.
+// Entries of rows that are gone are dropped.
+const remapRows = <T,>(
+  byRow: Record<number, T>,
+  keptRows: (number | null)[],
+): Record<number, T> => {
+  const next: Record<number, T> = {};
+  keptRows.forEach((oldRow, newRow) => {
+    if (oldRow !== null && oldRow in byRow) next[newRow] = byRow[oldRow];
+  });
+  return next;
+};
+
+// Where each row of an edited grid was before the edit. Rows edited in
+// place keep their index; once rows were added or removed, unchanged rows
+// are found again in order and the rest count as new.
+const matchEditedRows = (
+  before: unknown[][],
+  after: unknown[][],
+): (number | null)[] => {
+  if (before.length === after.length) return after.map((_, i) => i);
+  const key = (row: unknown[] | undefined) =>
+    (row ?? []).map(cellText).join("\u241f");
+  let next = 1;
+  return after.map((row, i) => {
+    if (i === 0) return 0;
+    const found = before.findIndex(
+      (old, j) => j >= next && key(old) === key(row),
+    );
+    if (found === -1) return null;
+    next = found + 1;
+    return found;
+  });
+};
+
 export default function Home() {
   // --- Main Data State ---
   const [fileData, setFileData] = useState<unknown[][]>();
+  // The grid as last rendered, for callbacks that outlive a render (e.g.
+  // quote batches arriving while the user edits)
+  const fileDataRef = useRef(fileData);
+  useEffect(() => {
+    fileDataRef.current = fileData;
+  }, [fileData]);
   const [fileName, setFileName] = useState<string>("");
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
   const [mainFileError, setMainFileError] = useState<string>();
   const [detectedFormat, setDetectedFormat] =
     useState<SupportedExportType>("xlsx");
+  // Every sheet of the opened workbook; the grid shows `activeSheetNames`
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheet[]>([]);
+  const [activeSheetNames, setActiveSheetNames] = useState<string[]>([]);
+  const [sheetPicker, setSheetPicker] = useState<SheetPicker | null>(null);
+  // The file as opened, so exports can patch it and keep its formatting
+  const [sourceWorkbook, setSourceWorkbook] = useState<SourceWorkbook | null>(
+    null,
+  );
+  const [keepOriginalLayout, setKeepOriginalLayout] = useState(true);
+  const [exportWithSources, setExportWithSources] = useState(false);
+  // Earlier quotes and orders of this BOM's parts, by normalized part number
+  const [partHistory, setPartHistory] = useState<
+    Record<string, PriceHistoryEntry[]>
+  >({});
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [viewingHistoryPart, setViewingHistoryPart] = useState<string | null>(
+    null,
+  );
 
   // --- Reference & AI State ---
   const [extraFiles, setExtraFiles] = useState<ReferenceFile[]>([]);
   const [extractingFileIds, setExtractingFileIds] = useState<string[]>([]);
+  // Per-chunk status while a long PDF is extracted in page ranges
+  const [extractionProgress, setExtractionProgress] = useState<
+    Record<string, ChunkProgress[]>
+  >({});
   const [extractionErrors, setExtractionErrors] = useState<
     Record<string, string>
   >({});
+  // Rows the model returned for a file that failed validation and were skipped
+  const [extractionWarnings, setExtractionWarnings] = useState<
+    Record<string, string>
+  >({});
+
+  // Column mappings used for spreadsheet references, reused on re-import
+  const [referenceMappings, setReferenceMappings] = useState<
+    Record<string, ColumnMapping>
+  >({});
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(
+    null,
+  );
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  useEffect(() => setMappingProfiles(loadMappingProfiles()), []);
 
   // Store source info per row index
   const [rowSources, setRowSources] = useState<Record<number, RowSourceInfo>>(
     {},
   );
+  const [showUnverifiedOnly, setShowUnverifiedOnly] = useState(false);
   // Controls the Citation Modal
   const [viewingSource, setViewingSource] = useState<RowSourceInfo | null>(
     null,
   );
 
   const [colorCounter, setColorCounter] = useState(0);
-  const { availableModels, currentModel, setCurrentModel } = useGemini();
+  const {
+    availableModels,
+    currentModel,
+    setCurrentModel,
+    isAiEnabled,
+    capabilities,
+  } = useGemini();
   const [fallbackWarning, setFallbackWarning] = useState<string | null>(null);
+  const { quotingConfig, setQuotingConfig } = useQuotingConfig();
 
   // Quoting State
   const [isQuoting, setIsQuoting] = useState(false);
+  const [quoteProgress, setQuoteProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const quoteAbortRef = useRef<AbortController | null>(null);
   // Track quoting status for individual rows
   const [quotingRowIndices, setQuotingRowIndices] = useState<number[]>([]);
+  const [rowOffers, setRowOffers] = useState<Record<number, RowQuoteOffers>>(
+    {},
+  );
+  const [viewingOffersRow, setViewingOffersRow] = useState<number | null>(null);
+  // Units being built; every BOM quantity is multiplied by it
+  const [buildQuantity, setBuildQuantity] = useState(1);
+  // Whether the build quantity being typed already has its undo entry
+  const buildQuantityCommittedRef = useRef(false);
+  // Imported supplier price lists; HTTP APIs live in the config
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [isPriceListsOpen, setIsPriceListsOpen] = useState(false);
 
   // --- UI State ---
   const [isChatOpen, setIsChatOpen] = useState(false);
@@ -145,6 +488,8 @@ export default function Home() {
     data: unknown[][];
     metadata: Record<string, EditSource>;
     sources: Record<number, RowSourceInfo>;
+    offers?: Record<number, RowQuoteOffers>;
+    buildQuantity?: number;
   };
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [future, setFuture] = useState<HistoryState[]>([]);
@@ -152,19 +497,158 @@ export default function Home() {
     null,
   );
 
+  // The workbook with the grid's edits written back into its sheet(s)
+  const getWorkbookSheets = useCallback((): WorkbookSheet[] => {
+    if (!fileData || workbookSheets.length === 0) return workbookSheets;
+    const edited =
+      activeSheetNames.length > 1
+        ? splitCombinedSheets(fileData, activeSheetNames)
+        : [{ name: activeSheetNames[0], rows: fileData }];
+    return workbookSheets.map(
+      (sheet) => edited.find((e) => e.name === sheet.name) ?? sheet,
+    );
+  }, [fileData, workbookSheets, activeSheetNames]);
+
+  const getCellFill = useCallback(
+    (source: EditSource | undefined) => {
+      if (source === "user") return USER_CELL_FILL;
+      if (source === "ai") return AI_CELL_FILL;
+      if (source?.startsWith("extraction-")) {
+        const id = source.replace("extraction-", "");
+        const refFile = extraFiles.find((f) => f.id === id);
+        if (refFile) return FILE_CELL_FILLS[refFile.colorIndex];
+      }
+      return undefined;
+    },
+    [extraFiles],
+  );
+
+  // The BOM's name in the price history
+  const project = uploadedFileName || fileName || "Untitled";
+  const rowParts = useMemo(() => bomParts(fileData ?? []), [fileData]);
+  const historyPartsKey = [
+    ...new Set(rowParts.filter((part): part is string => !!part)),
+  ].join("\n");
+
+  useEffect(() => {
+    let cancelled = false;
+    getPriceHistory(historyPartsKey ? historyPartsKey.split("\n") : []).then(
+      (history) => {
+        if (!cancelled) setPartHistory(history);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [historyPartsKey, historyVersion]);
+
+  const recordHistory = useCallback((entries: PriceHistoryEntry[]) => {
+    if (entries.length === 0) return;
+    recordPriceHistory(entries).then(() => setHistoryVersion((v) => v + 1));
+  }, []);
+
+  // `asOrder` records what each part cost in the price history, once the
+  // file is written
+  const exportData = useCallback(
+    (name: string, format: SupportedExportType, asOrder = false) => {
+      if (!fileData || fileData.length === 0) return;
+      const failed = (message: string) => (err: unknown) => {
+        console.error(message, err);
+        setMainFileError(message);
+        return false;
+      };
+      let saved: Promise<boolean>;
+      // Exported like they're shown: in the display currency
+      const { displayCurrency, exchangeRates } = quotingConfig;
+      const data = convertMoneyCells(fileData, displayCurrency, exchangeRates);
+      const sheets = getWorkbookSheets().map((sheet) => ({
+        ...sheet,
+        rows: convertMoneyCells(sheet.rows, displayCurrency, exchangeRates),
+      }));
+      if (exportWithSources && format === "xlsx") {
+        const fills: Record<string, string> = {};
+        Object.entries(editMetadata).forEach(([key, source]) => {
+          const fill = getCellFill(source);
+          if (fill) fills[key] = fill;
+        });
+        const sources: Record<number, ProvenanceSource> = {};
+        Object.entries(rowSources).forEach(([rowIndex, source]) => {
+          const refFile = extraFiles.find((f) => f.id === source.fileId);
+          sources[Number(rowIndex)] = {
+            ...source,
+            fill: refFile ? FILE_CELL_FILLS[refFile.colorIndex] : AI_CELL_FILL,
+          };
+        });
+        saved = saveProvenanceWorkbook(data, name, fills, sources, {
+          sheets,
+          gridSheetNames: activeSheetNames,
+          source: keepOriginalLayout ? sourceWorkbook : null,
+        })
+          .then((keptLayout) => {
+            if (!keptLayout) setMainFileError(LAYOUT_LOST_WARNING);
+            return true;
+          })
+          .catch(failed("Failed to export with sources."));
+      } else if (sourceWorkbook && keepOriginalLayout) {
+        saved = savePatchedWorkbook(sourceWorkbook, sheets, name, format)
+          .then((patched) => {
+            if (patched) return true;
+            saveToExcel(data, name, format, sheets);
+            setMainFileError(LAYOUT_LOST_WARNING);
+            return true;
+          })
+          .catch(failed("Failed to export in the original layout."));
+      } else {
+        saved = Promise.resolve()
+          .then(() => {
+            saveToExcel(data, name, format, sheets);
+            return true;
+          })
+          .catch(failed("Failed to export."));
+      }
+
+      if (!asOrder) return;
+      const suppliers: Record<number, string> = {};
+      Object.entries(rowOffers).forEach(([rowIndex, quoted]) => {
+        suppliers[Number(rowIndex)] =
+          quoted.offers[quoted.selected]?.supplier ?? "";
+      });
+      saved.then((ok) => {
+        if (!ok) return;
+        recordHistory(
+          orderHistoryEntries(fileData, suppliers, project, quotingConfig),
+        );
+      });
+    },
+    [
+      fileData,
+      editMetadata,
+      rowSources,
+      extraFiles,
+      sourceWorkbook,
+      keepOriginalLayout,
+      exportWithSources,
+      getWorkbookSheets,
+      activeSheetNames,
+      getCellFill,
+      quotingConfig,
+      rowOffers,
+      project,
+      recordHistory,
+    ],
+  );
+
   // --- Keyboard Shortcuts ---
   useEffect(() => {
     const handleGlobalKeyDown = (e: globalThis.KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === "s") {
         e.preventDefault();
-        if (fileData && fileData.length > 0) {
-          saveToExcel(fileData, fileName || "data", detectedFormat);
-        }
+        exportData(fileName || "data", detectedFormat);
       }
     };
     window.addEventListener("keydown", handleGlobalKeyDown);
     return () => window.removeEventListener("keydown", handleGlobalKeyDown);
-  }, [fileData, fileName, detectedFormat]);
+  }, [exportData, fileName, detectedFormat]);
 
   // --- History Management ---
   const commitToHistory = useCallback(() => {
@@ -172,28 +656,42 @@ export default function Home() {
     setHistory((prev) => {
       const newHistory = [
         ...prev,
-        { data: fileData, metadata: editMetadata, sources: rowSources },
+        {
+          data: fileData,
+          metadata: editMetadata,
+          sources: rowSources,
+          offers: rowOffers,
+          buildQuantity,
+        },
       ];
       if (newHistory.length > MAX_HISTORY)
         return newHistory.slice(newHistory.length - MAX_HISTORY);
       return newHistory;
     });
     setFuture([]);
-  }, [fileData, editMetadata, rowSources]);
+  }, [fileData, editMetadata, rowSources, rowOffers, buildQuantity]);
 
   const handleUndo = useCallback(() => {
     if (history.length === 0 || !fileData) return;
     const previousState = history[history.length - 1];
     const newHistory = history.slice(0, -1);
     setFuture((prev) => [
-      { data: fileData, metadata: editMetadata, sources: rowSources },
+      {
+        data: fileData,
+        metadata: editMetadata,
+        sources: rowSources,
+        offers: rowOffers,
+        buildQuantity,
+      },
       ...prev,
     ]);
     setFileData(previousState.data);
     setEditMetadata(previousState.metadata);
     setRowSources(previousState.sources || {});
+    setRowOffers(previousState.offers || {});
+    setBuildQuantity(previousState.buildQuantity ?? buildQuantity);
     setHistory(newHistory);
-  }, [history, fileData, editMetadata, rowSources]);
+  }, [history, fileData, editMetadata, rowSources, rowOffers, buildQuantity]);
 
   const handleRedo = useCallback(() => {
     if (future.length === 0 || !fileData) return;
@@ -201,31 +699,73 @@ export default function Home() {
     const newFuture = future.slice(1);
     setHistory((prev) => [
       ...prev,
-      { data: fileData, metadata: editMetadata, sources: rowSources },
+      {
+        data: fileData,
+        metadata: editMetadata,
+        sources: rowSources,
+        offers: rowOffers,
+        buildQuantity,
+      },
     ]);
     setFileData(nextState.data);
     setEditMetadata(nextState.metadata);
     setRowSources(nextState.sources || {});
+    setRowOffers(nextState.offers || {});
+    setBuildQuantity(nextState.buildQuantity ?? buildQuantity);
     setFuture(newFuture);
-  }, [future, fileData, editMetadata, rowSources]);
+  }, [future, fileData, editMetadata, rowSources, rowOffers, buildQuantity]);
 
   // --- Main File Logic ---
-  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files?.length) return;
-    const inputFile = e.target.files[0];
-    setMainFileError(undefined);
+  // Shows one sheet, or several stacked with a "Sheet" column, as a fresh grid
+  const loadSheets = (sheets: WorkbookSheet[], sheetNames: string[]) => {
     setEditingCell(null);
     setEditMetadata({});
     setRowSources({});
+    setRowOffers({});
+    setBuildQuantity(1);
     setHistory([]);
     setFuture([]);
     setExtraFiles([]);
     setExtractionErrors({});
+    setExtractionWarnings({});
+    setReferenceMappings({});
     setColorCounter(0);
     setFallbackWarning(null);
+
+    const data =
+      sheetNames.length === 1
+        ? sheets.find((s) => s.name === sheetNames[0])!.rows
+        : combineSheets(sheets.filter((s) => sheetNames.includes(s.name)));
+    setWorkbookSheets(sheets);
+    setActiveSheetNames(sheetNames);
+    setFileData(data);
+    setOriginalFileData(data);
+  };
+
+  // Edits in the current grid are kept; highlights and undo history are not
+  const openSheetPicker = () => {
+    if (!uploadedFileName) return;
+    const sheets = getWorkbookSheets();
+    setSheetPicker({
+      fileName: uploadedFileName,
+      sheets,
+      initialSelection: activeSheetNames,
+      onPick: (sheetNames) => loadSheets(sheets, sheetNames),
+    });
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files?.length) return;
+    const inputFile = e.target.files[0];
+    setMainFileError(undefined);
     try {
-      const rawData = await parseFile(inputFile);
-      if (rawData.length === 0) {
+      const source = await parseWorkbook(inputFile);
+      const sheets = source.sheets.map((sheet) => ({
+        name: sheet.sheetName,
+        rows: sheet.rows,
+      }));
+      const nonEmpty = sheets.filter((sheet) => sheet.rows.length > 0);
+      if (nonEmpty.length === 0) {
         setMainFileError("The file is empty or has no valid data");
         return;
       }
@@ -238,12 +778,25 @@ export default function Home() {
         lastDotIndex !== -1
           ? inputFile.name.substring(lastDotIndex + 1).toLowerCase()
           : "";
-      setFileData(rawData);
-      setOriginalFileData(rawData);
-      setUploadedFileName(inputFile.name);
-      setFileName(nameWithoutExt);
-      if (isOfTypeSupportedExportType(ext)) setDetectedFormat(ext);
-      else setDetectedFormat("xlsx");
+      const openWorkbook = (sheetNames: string[]) => {
+        loadSheets(sheets, sheetNames);
+        setSourceWorkbook(source);
+        setUploadedFileName(inputFile.name);
+        setFileName(nameWithoutExt);
+        if (isOfTypeSupportedExportType(ext)) setDetectedFormat(ext);
+        else setDetectedFormat("xlsx");
+      };
+
+      if (nonEmpty.length === 1) {
+        openWorkbook([nonEmpty[0].name]);
+      } else {
+        setSheetPicker({
+          fileName: inputFile.name,
+          sheets,
+          initialSelection: [nonEmpty[0].name],
+          onPick: openWorkbook,
+        });
+      }
     } catch (err) {
       console.error("Error processing file:", err);
       setMainFileError("Failed to parse the file.");
@@ -257,9 +810,11 @@ export default function Home() {
       setFileData(JSON.parse(JSON.stringify(originalFileData)));
       setEditMetadata({});
       setRowSources({});
+      setRowOffers({});
       setIsResetDialogOpen(false);
       setFallbackWarning(null);
       setExtractionErrors({});
+      setExtractionWarnings({});
     }
   };
 
@@ -297,7 +852,6 @@ export default function Home() {
 
     const newData = rowsKeepIndices.map((idx) => currentData[idx]);
     const newMetadata: Record<string, EditSource> = {};
-    const newSources: Record<number, RowSourceInfo> = {};
 
     rowsKeepIndices.forEach((oldRowIdx, newRowIdx) => {
       // Shift Metadata
@@ -306,14 +860,83 @@ export default function Home() {
         const oldMeta = currentMeta[`${oldRowIdx}-${colIdx}`];
         if (oldMeta) newMetadata[`${newRowIdx}-${colIdx}`] = oldMeta;
       });
-
-      // Shift Sources
-      if (currentSources[oldRowIdx]) {
-        newSources[newRowIdx] = currentSources[oldRowIdx];
-      }
     });
 
-    return { newData, newMetadata, newSources };
+    return {
+      newData,
+      newMetadata,
+      newSources: remapRows(currentSources, rowsKeepIndices),
+      keptRows: rowsKeepIndices, // For per-row state kept elsewhere (offers)
+    };
+  };
+
+  // Explains why the model changed mid-request (e.g. "x was rate limited")
+  const reportModelSwitch = (
+    failedModel: string,
+    nextModel: string,
+    reason: LlmError,
+  ) => {
+    setFallbackWarning(
+      `⚠️ ${describeLlmError(failedModel, reason)}. Switched to ${nextModel}.`,
+    );
+  };
+
+  // Parses a spreadsheet reference and, unless a saved profile covers its
+  // layout, lets the user review the column mapping. Null = cancelled.
+  const importSpreadsheet = async (
+    refFile: ReferenceFile,
+    headers: unknown[],
+    reviewMapping: boolean,
+  ) => {
+    const plan = await planSpreadsheetImport(
+      refFile.file,
+      headers,
+      mappingProfiles,
+      isAiEnabled
+        ? {
+            startModel: currentModel,
+            availableModels,
+            onRetry: reportModelSwitch,
+          }
+        : undefined,
+    );
+    const previous = referenceMappings[refFile.id];
+    if (previous?.length === headers.length) plan.mapping = previous;
+
+    const mapping =
+      plan.profile && !reviewMapping
+        ? plan.mapping
+        : await new Promise<ColumnMapping | null>((resolve) =>
+            setPendingMapping({
+              refFile,
+              plan,
+              targetHeaders: headers,
+              resolve,
+            }),
+          );
+    if (!mapping) return null;
+
+    setReferenceMappings((prev) => ({ ...prev, [refFile.id]: mapping }));
+    return buildSpreadsheetImport(plan, headers, mapping);
+  };
+
+  const closeMappingDialog = (
+    mapping: ColumnMapping | null,
+    saveAsProfile?: string,
+  ) => {
+    if (!pendingMapping) return;
+    if (mapping && saveAsProfile) {
+      setMappingProfiles(
+        saveMappingProfile(
+          saveAsProfile,
+          pendingMapping.plan.sheet.rows[0],
+          pendingMapping.targetHeaders,
+          mapping,
+        ),
+      );
+    }
+    pendingMapping.resolve(mapping);
+    setPendingMapping(null);
   };
 
   // --- Core Extraction Function ---
@@ -322,6 +945,7 @@ export default function Home() {
     currentData: unknown[][],
     currentMeta: Record<string, EditSource>,
     currentSources: Record<number, RowSourceInfo>,
+    reviewMapping = false, // Always show the mapping step for spreadsheets
   ) => {
     if (!currentData || currentData.length === 0) return null;
 
@@ -331,12 +955,18 @@ export default function Home() {
       delete next[refFile.id];
       return next;
     });
+    setExtractionWarnings((prev) => {
+      const next = { ...prev };
+      delete next[refFile.id];
+      return next;
+    });
 
     // 1. Clean old data for this file ID (Refinement)
     const {
       newData: cleanedData,
       newMetadata: cleanedMeta,
       newSources: cleanedSources,
+      keptRows,
     } = removeDataForFileId(
       refFile.id,
       currentData,
@@ -347,22 +977,96 @@ export default function Home() {
     const headers = cleanedData[0];
     const attemptedModel = currentModel;
 
-    // 2. Call AI
-    const result = await extractDataFromReference(
-      refFile.file,
-      headers,
-      attemptedModel,
-      availableModels,
-    );
+    // 2. Read spreadsheets locally (AI only helps map columns), else call AI
+    let result: Awaited<ReturnType<typeof extractDataFromReference>> = null;
+    let isMappingCancelled = false;
+    try {
+      if (isSpreadsheetFile(refFile.file)) {
+        result = await importSpreadsheet(refFile, headers, reviewMapping);
+        isMappingCancelled = result === null;
+      } else {
+        result = await extractDataFromReference(
+          refFile.file,
+          headers,
+          attemptedModel,
+          availableModels,
+          reportModelSwitch,
+          (chunks) =>
+            setExtractionProgress((prev) => ({
+              ...prev,
+              [refFile.id]: chunks,
+            })),
+        );
+      }
+    } catch (err) {
+      if (err instanceof Error) {
+        setExtractionErrors((prev) => ({ ...prev, [refFile.id]: err.message }));
+      }
+    }
+
+    // Cancelling keeps whatever this file contributed before
+    if (isMappingCancelled) {
+      setExtractingFileIds((prev) => prev.filter((id) => id !== refFile.id));
+      const hasRows = Object.values(currentSources).some(
+        (source) => source.fileId === refFile.id,
+      );
+      if (!hasRows) {
+        setExtractionErrors((prev) => ({
+          ...prev,
+          [refFile.id]: "Import cancelled. Click to map the columns again.",
+        }));
+      }
+      return null;
+    }
+
+    // Check the quotes against the PDF's own text layer before trusting them
+    let verifications: (CitationVerification | undefined)[] = [];
+    if (result && result.rows.length > 0) {
+      try {
+        verifications = await verifyDocumentCitations(
+          refFile.file,
+          result.rows.map((r) => r.citation),
+        );
+      } catch (err) {
+        console.error("Citation verification failed", err);
+      }
+    }
 
     setExtractingFileIds((prev) => prev.filter((id) => id !== refFile.id));
+    setExtractionProgress((prev) => {
+      const next = { ...prev };
+      delete next[refFile.id];
+      return next;
+    });
+
+    const problems: string[] = [];
+    if (result && result.failedChunks.length > 0) {
+      problems.push(
+        ...result.failedChunks.map(
+          (c) => `Pages ${c.startPage}-${c.endPage} failed: ${c.reason}`,
+        ),
+      );
+    }
+    if (result && result.invalidRows.length > 0) {
+      problems.push(
+        `Skipped ${result.invalidRows.length} invalid row(s): ${describeInvalidItems(
+          result.invalidRows,
+          (item) => `#${item.index + 1}`,
+        )}`,
+      );
+    }
+    if (result && problems.length > 0) {
+      const message = problems.join(" ");
+      if (result.rows.length > 0) {
+        setExtractionWarnings((prev) => ({ ...prev, [refFile.id]: message }));
+      } else {
+        setExtractionErrors((prev) => ({ ...prev, [refFile.id]: message }));
+      }
+    }
 
     if (result && result.rows.length > 0) {
       if (result.finalModel !== attemptedModel) {
         setCurrentModel(result.finalModel);
-        setFallbackWarning(
-          `⚠️ Model ${attemptedModel} failed. Switched to ${result.finalModel}.`,
-        );
       }
 
       // 3. Merge New Data
@@ -386,214 +1090,420 @@ export default function Home() {
           fileId: refFile.id,
           fileName: refFile.file.name,
           citation: rowObj.citation,
+          verification: verifications[rIdx],
         };
       });
 
-      return { updatedData, newMetadata, newSources };
+      return { updatedData, newMetadata, newSources, keptRows };
     } else {
-      // 4. Handle Failure
+      // 4. Handle Failure (keep the more specific validation message if any)
       setExtractionErrors((prev) => ({
-        ...prev,
         [refFile.id]: `Could not extract valid tabular data from ${refFile.file.name}.`,
+        ...prev,
       }));
       // Return the cleaned state so users can retry without duplicates
       return {
         updatedData: cleanedData,
         newMetadata: cleanedMeta,
         newSources: cleanedSources,
+        keptRows,
       };
     }
   };
 
+  // Writes each row's best offer into the grid. Functional updates, so
+  // batches arriving while the user edits don't overwrite each other.
+  const mergeQuotes = (
+    quotes: MergedQuote[],
+    cols: QuoteColumns,
+    quantityCol: number,
+    fileId: string,
+  ) => {
+    const picks = quotes.map((quote) => ({
+      quote,
+      selected: pickBestOffer(quote.offers, quotingConfig.exchangeRates),
+    }));
+    const width = Math.max(...Object.values(cols)) + 1;
+    // Cached quotes were recorded when they were made
+    const current = fileDataRef.current ?? [];
+    recordHistory(
+      picks.flatMap(({ quote, selected }) => {
+        if (quote.cachedAt) return [];
+        const entry = quoteHistoryEntry(
+          current[quote.rowId] ?? [],
+          current[0] ?? [],
+          quote.offers[selected],
+          quote.quotedAt,
+          project,
+          quotingConfig,
+        );
+        return entry ? [entry] : [];
+      }),
+    );
+
+    setFileData((prev) => {
+      if (!prev) return prev;
+      const next = [...prev];
+      picks.forEach(({ quote, selected }) => {
+        if (quote.rowId >= next.length) return;
+        const row = [...(next[quote.rowId] as unknown[])];
+        while (row.length < width) row.push("");
+        writeOfferCells(
+          row,
+          quote.offers[selected],
+          cols,
+          requiredQuantity(row, quantityCol, buildQuantity),
+        );
+        next[quote.rowId] = row;
+      });
+      return next;
+    });
+    setEditMetadata((prev) => {
+      const next = { ...prev };
+      picks.forEach(({ quote }) =>
+        Object.values(cols).forEach((c) => {
+          next[`${quote.rowId}-${c}`] = "ai";
+        }),
+      );
+      return next;
+    });
+    setRowSources((prev) => {
+      const next = { ...prev };
+      picks.forEach(({ quote, selected }) => {
+        next[quote.rowId] = offerSource(fileId, quote.offers[selected], quote);
+      });
+      return next;
+    });
+    setRowOffers((prev) => {
+      const next = { ...prev };
+      picks.forEach(({ quote, selected }) => {
+        next[quote.rowId] = {
+          offers: quote.offers,
+          selected,
+          reasoning: quote.reasoning,
+          searchQueries: quote.searchQueries ?? [],
+          searchResults: quote.searchResults ?? [],
+          quotedAt: quote.quotedAt,
+          model: quote.model,
+          cachedAt: quote.cachedAt,
+        };
+      });
+      return next;
+    });
+  };
+
+  // --- Supplier Catalogs ---
+  // Indexing a large catalog takes a moment, so only redo it on change
+  const supplierAdapters: SupplierAdapter[] = useMemo(
+    () => [
+      ...priceLists.map(createPriceListAdapter),
+      ...quotingConfig.supplierApis.map((api) =>
+        createHttpSupplierAdapter({
+          id: `http:${api.baseUrl}`,
+          label: api.label || getDomain(api.baseUrl),
+          baseUrl: api.baseUrl,
+        }),
+      ),
+    ],
+    [priceLists, quotingConfig.supplierApis],
+  );
+  const canQuote = capabilities.webSearch || supplierAdapters.length > 0;
+  // Without web search the catalogs are all there is
+  const lookupConfig: QuotingConfig = capabilities.webSearch
+    ? quotingConfig
+    : { ...quotingConfig, supplierLookup: "instead-of-search" };
+
+  useEffect(() => {
+    getPriceLists()
+      .then(setPriceLists)
+      .catch((err) => console.warn("Price lists unavailable", err));
+  }, []);
+
+  // Errors reach the dialog, which shows them next to the import button.
+  // Cached web quotes are dropped so the list's parts get its prices.
+  const handleImportPriceList = async (file: File) => {
+    const list = await importPriceList(file, quotingConfig.currency);
+    await savePriceList(list);
+    await clearQuoteCache().catch((err) =>
+      console.warn("Failed to clear cache", err),
+    );
+    setPriceLists((prev) =>
+      [...prev.filter((other) => other.id !== list.id), list].sort((a, b) =>
+        a.supplier.localeCompare(b.supplier),
+      ),
+    );
+  };
+
+  const handleDeletePriceList = (id: string) => {
+    deletePriceList(id)
+      .then(() =>
+        setPriceLists((prev) => prev.filter((list) => list.id !== id)),
+      )
+      .catch((err) => console.warn("Failed to delete price list", err));
+  };
+
   // --- Auto Quoting Logic (Batch) ---
-  const handleAutoQuote = async () => {
+  // Found parts only; a miss may be listed by the time of the next run.
+  // Catalog prices aren't cached: they're exact and cheap to look up again.
+  const cacheQuotes = (quotes: QuotedRow[], data: unknown[][]) => {
+    const entries = quotes.flatMap((quote) => {
+      const key = quoteCacheKey(
+        data[quote.rowId] ?? [],
+        data[0],
+        quotingConfig,
+      );
+      const fromSearch = quote.offers.some(
+        (offer) => offer.origin === "web-search",
+      );
+      return key && fromSearch ? [{ key, quote }] : [];
+    });
+    putCachedQuotes(entries);
+  };
+
+  // Rows whose part was quoted within the cache TTL are filled from the
+  // cache; the rest go to search. Force refresh skips the lookup.
+  // `onlyRows` limits the run to those rows (e.g. the stale ones).
+  const handleAutoQuote = async (forceRefresh = false, onlyRows?: number[]) => {
     if (!fileData || fileData.length === 0) return;
+    const controller = new AbortController();
+    quoteAbortRef.current = controller;
     setIsQuoting(true);
     setMainFileError(undefined);
 
     commitToHistory();
 
     try {
-      const currentHeaders = fileData[0] as string[];
-      let updatedHeaders = [...currentHeaders];
-      let updatedData = [...fileData];
-      let updatedMeta = { ...editMetadata };
-      let updatedSources = { ...rowSources };
-
-      // 1. Identify or Create Columns
-      const requiredCols = ["Net Price", "Price/Unit", "Est. Delivery"];
-      const colIndices: Record<string, number> = {};
-
-      requiredCols.forEach((colName) => {
-        let idx = updatedHeaders.findIndex((h) =>
-          h?.toString().toLowerCase().includes(colName.toLowerCase()),
-        );
-        if (idx === -1) {
-          idx = updatedHeaders.length;
-          updatedHeaders.push(colName);
-          // Expand all rows to fit new header
-          updatedData = updatedData.map((row, i) =>
-            i === 0 ? updatedHeaders : [...row, ""],
+      const { data, cols, quantityCol, columnsAdded } = ensureQuoteColumns(
+        fileData,
+        quotingConfig,
+      );
+      if (columnsAdded) setFileData(data);
+
+      const bodyRows = data
+        .slice(1)
+        .map((row, i) => ({ rowIndex: i + 1, data: row }))
+        .filter(({ rowIndex }) => !onlyRows || onlyRows.includes(rowIndex));
+      const cacheKeys = bodyRows.map(({ data: row }) =>
+        quoteCacheKey(row, data[0], quotingConfig),
+      );
+      const cached = forceRefresh
+        ? new Map<string, CachedQuote>()
+        : await getCachedQuotes(
+            cacheKeys.filter((key): key is string => key !== null),
+            quotingConfig.cacheTtlHours,
           );
-        }
-        colIndices[colName] = idx;
+      const cachedQuotes = bodyRows.flatMap(({ rowIndex }, i) => {
+        const hit = cached.get(cacheKeys[i] ?? "");
+        return hit ? [{ ...hit, rowId: rowIndex }] : [];
       });
+      if (cachedQuotes.length > 0) {
+        mergeQuotes(cachedQuotes, cols, quantityCol, "ai-quoting");
+      }
+      const rowsToSearch = bodyRows.filter(
+        (_, i) => !cached.has(cacheKeys[i] ?? ""),
+      );
 
-      // Update data with new headers locally for the AI context
-      updatedData[0] = updatedHeaders;
-
-      // 2. Call AI
-      const bodyRows = updatedData.slice(1);
-      const quotes = await quoteProducts(
-        bodyRows,
-        updatedHeaders,
+      const summary = await quoteProductsInBatches(
+        rowsToSearch,
+        data[0],
         currentModel,
         availableModels,
+        lookupConfig,
+        {
+          onRetry: reportModelSwitch,
+          onBatch: (result) => {
+            mergeQuotes(result.quotes, cols, quantityCol, "ai-quoting");
+            cacheQuotes(result.quotes, data);
+          },
+          onProgress: (done, total) => setQuoteProgress({ done, total }),
+          signal: controller.signal,
+          adapters: supplierAdapters,
+        },
       );
 
-      if (quotes && quotes.length > 0) {
-        // 3. Merge Results
-        quotes.forEach((quote) => {
-          const rowIndex = quote.rowId;
-
-          if (rowIndex < updatedData.length) {
-            const row = [...(updatedData[rowIndex] as unknown[])];
-
-            // Fill cells
-            row[colIndices["Net Price"]] = quote.totalNetPrice;
-            row[colIndices["Price/Unit"]] = quote.netPricePerUnit;
-            row[colIndices["Est. Delivery"]] = quote.estimatedDelivery;
-
-            updatedData[rowIndex] = row;
-
-            // Update Metadata (Coloring)
-            updatedMeta[`${rowIndex}-${colIndices["Net Price"]}`] = "ai";
-            updatedMeta[`${rowIndex}-${colIndices["Price/Unit"]}`] = "ai";
-            updatedMeta[`${rowIndex}-${colIndices["Est. Delivery"]}`] = "ai";
-
-            // Update Source Citation
-            const domain = getDomain(quote.sourceUrl);
-            updatedSources[rowIndex] = {
-              fileId: "conrad-quoting",
-              fileName: "AI Quoting",
-              citation: {
-                type: "api",
-                endpoint: domain,
-                reasoning: quote.reasoning,
-                url: quote.sourceUrl,
-              },
-            };
-          }
-        });
-
-        setFileData(updatedData);
-        setEditMetadata(updatedMeta);
-        setRowSources(updatedSources);
-      } else {
-        setMainFileError(
-          "Quoting failed or found no results. Data not modified.",
+      const notQuoted = [
+        ...summary.invalidQuotes,
+        ...summary.failedBatches.flatMap(({ rowIds, reason }) =>
+          rowIds.map((rowId) => ({ index: -1, rowId, reason })),
+        ),
+      ];
+      const messages: string[] = [];
+      if (summary.cancelled) {
+        messages.push(
+          `Quoting cancelled: ${summary.quotedRows + cachedQuotes.length} of ${bodyRows.length} rows quoted and kept.`,
+        );
+      }
+      if (notQuoted.length > 0) {
+        messages.push(
+          `${notQuoted.length} row(s) not quoted: ${describeInvalidItems(
+            notQuoted,
+            (item) => (item.rowId ? `Row ${item.rowId}` : `#${item.index + 1}`),
+          )}`,
         );
+      } else if (
+        summary.quotedRows + cachedQuotes.length === 0 &&
+        !summary.cancelled
+      ) {
+        messages.push("Quoting found no results. Data not modified.");
       }
+      if (messages.length > 0) setMainFileError(messages.join(" "));
     } catch (e) {
       console.error("Auto Quoting error", e);
-      setMainFileError("Quoting process failed.");
+      setMainFileError(
+        e instanceof LlmError ? e.message : "Quoting process failed.",
+      );
     } finally {
+      quoteAbortRef.current = null;
       setIsQuoting(false);
+      setQuoteProgress(null);
     }
   };
 
+  // Stops the run; batches already merged stay in the grid
+  const handleCancelQuote = () => quoteAbortRef.current?.abort();
+
   // --- Single Row Quoting Logic ---
-  const handleSingleRowQuote = async (rowIndex: number) => {
+  const handleSingleRowQuote = async (
+    rowIndex: number,
+    forceRefresh = false,
+  ) => {
     if (!fileData) return;
 
     setQuotingRowIndices((prev) => [...prev, rowIndex]);
     commitToHistory();
 
     try {
-      let currentData = [...fileData];
-      let currentHeaders = [...(currentData[0] as string[])];
-
-      const requiredCols = ["Net Price", "Price/Unit", "Est. Delivery"];
-      const colIndices: Record<string, number> = {};
-      let columnsAdded = false;
-
-      requiredCols.forEach((colName) => {
-        let idx = currentHeaders.findIndex((h) =>
-          h?.toString().toLowerCase().includes(colName.toLowerCase()),
-        );
-        if (idx === -1) {
-          idx = currentHeaders.length;
-          currentHeaders.push(colName);
-          columnsAdded = true;
+      const { data, cols, quantityCol, columnsAdded } = ensureQuoteColumns(
+        fileData,
+        quotingConfig,
+      );
+      if (columnsAdded) setFileData(data);
+
+      const cacheKey = quoteCacheKey(data[rowIndex], data[0], quotingConfig);
+      if (cacheKey && !forceRefresh) {
+        const hit = (
+          await getCachedQuotes([cacheKey], quotingConfig.cacheTtlHours)
+        ).get(cacheKey);
+        if (hit) {
+          mergeQuotes(
+            [{ ...hit, rowId: rowIndex }],
+            cols,
+            quantityCol,
+            "ai-quoting-single",
+          );
+          return;
         }
-        colIndices[colName] = idx;
-      });
-
-      if (columnsAdded) {
-        currentData = currentData.map((row, i) => {
-          if (i === 0) return currentHeaders;
-          const newRow = [...row];
-          while (newRow.length < currentHeaders.length) {
-            newRow.push("");
-          }
-          return newRow;
-        });
-        setFileData(currentData);
       }
 
-      const rowToQuote = currentData[rowIndex];
-      const quotes = await quoteProducts(
-        [rowToQuote],
-        currentHeaders,
+      const result = await quoteProducts(
+        [data[rowIndex]],
+        data[0],
         currentModel,
         availableModels,
+        lookupConfig,
+        reportModelSwitch,
+        "single-quote",
+        undefined,
+        supplierAdapters,
       );
 
-      if (quotes && quotes.length > 0) {
-        const quote = quotes[0];
-
-        setFileData((prevData) => {
-          if (!prevData) return prevData;
-          const newData = [...prevData];
-          const row = [...(newData[rowIndex] as unknown[])];
-          while (row.length < currentHeaders.length) row.push("");
-
-          row[colIndices["Net Price"]] = quote.totalNetPrice;
-          row[colIndices["Price/Unit"]] = quote.netPricePerUnit;
-          row[colIndices["Est. Delivery"]] = quote.estimatedDelivery;
-          newData[rowIndex] = row;
-          return newData;
-        });
-
-        setEditMetadata((prev) => ({
-          ...prev,
-          [`${rowIndex}-${colIndices["Net Price"]}`]: "ai",
-          [`${rowIndex}-${colIndices["Price/Unit"]}`]: "ai",
-          [`${rowIndex}-${colIndices["Est. Delivery"]}`]: "ai",
-        }));
-
-        const domain = getDomain(quote.sourceUrl);
-        setRowSources((prev) => ({
-          ...prev,
-          [rowIndex]: {
-            fileId: "conrad-quoting-single",
-            fileName: "AI Quoting",
-            citation: {
-              type: "api",
-              endpoint: domain,
-              reasoning: quote.reasoning,
-              url: quote.sourceUrl,
-            },
-          },
-        }));
+      if (result && result.quotes.length > 0) {
+        const quote = { ...result.quotes[0], rowId: rowIndex };
+        mergeQuotes([quote], cols, quantityCol, "ai-quoting-single");
+        cacheQuotes([quote], data);
+      } else if (result && result.invalidQuotes.length > 0) {
+        setMainFileError(
+          `Row ${rowIndex} not quoted: ${result.invalidQuotes[0].reason}`,
+        );
       }
     } catch (e) {
       console.error("Single row quote error:", e);
+      if (e instanceof LlmError) setMainFileError(e.message);
     } finally {
       setQuotingRowIndices((prev) => prev.filter((id) => id !== rowIndex));
     }
   };
 
+  // --- Offer Comparison ---
+  // Writes the chosen offer into the row; the others stay as alternatives
+  const handleSelectOffer = (rowIndex: number, index: number) => {
+    const quoted = rowOffers[rowIndex];
+    if (!fileData || !quoted) return;
+    commitToHistory();
+
+    const { data, cols, quantityCol } = ensureQuoteColumns(
+      fileData,
+      quotingConfig,
+    );
+    const offer = quoted.offers[index];
+    const newData = [...data];
+    const row = [...(newData[rowIndex] as unknown[])];
+    writeOfferCells(
+      row,
+      offer,
+      cols,
+      requiredQuantity(row, quantityCol, buildQuantity),
+    );
+    newData[rowIndex] = row;
+    setFileData(newData);
+
+    const newMetadata = { ...editMetadata };
+    Object.values(cols).forEach((c) => {
+      newMetadata[`${rowIndex}-${c}`] = "ai";
+    });
+    setEditMetadata(newMetadata);
+
+    setRowSources((prev) => ({
+      ...prev,
+      [rowIndex]: offerSource("ai-quoting", offer, quoted),
+    }));
+    setRowOffers((prev) => ({
+      ...prev,
+      [rowIndex]: { ...quoted, selected: index },
+    }));
+
+    const entry = quoteHistoryEntry(
+      row,
+      data[0],
+      offer,
+      quoted.quotedAt,
+      project,
+      quotingConfig,
+    );
+    if (entry) recordHistory([entry]);
+  };
+
+  // Re-prices every quoted row for the new build quantity, picking the
+  // price break the scaled quantity reaches. One undo step per edit of the
+  // field, not per keystroke.
+  const handleBuildQuantityChange = (value: number) => {
+    if (value === buildQuantity) return;
+    if (!buildQuantityCommittedRef.current) {
+      commitToHistory();
+      buildQuantityCommittedRef.current = true;
+    }
+    setBuildQuantity(value);
+    if (!fileData || Object.keys(rowOffers).length === 0) return;
+    const { data, cols, quantityCol, columnsAdded } = ensureQuoteColumns(
+      fileData,
+      quotingConfig,
+    );
+    if (columnsAdded) return;
+    const newData = [...data];
+    Object.entries(rowOffers).forEach(([rowIndex, quoted]) => {
+      if (Number(rowIndex) >= newData.length) return;
+      const row = [...(newData[Number(rowIndex)] as unknown[])];
+      writeOrderCells(
+        row,
+        quoted.offers[quoted.selected],
+        cols,
+        requiredQuantity(row, quantityCol, value),
+      );
+      newData[Number(rowIndex)] = row;
+    });
+    setFileData(newData);
+  };
+
   // --- Add Reference Handler ---
   const handleAddExtraFile = async (e: ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files?.length) return;
@@ -628,6 +1538,7 @@ export default function Home() {
         setFileData(workingData);
         setEditMetadata(workingMeta);
         setRowSources(workingSources);
+        setRowOffers((prev) => remapRows(prev, result.keptRows));
       }
     }
     e.target.value = "";
@@ -644,8 +1555,13 @@ export default function Home() {
       delete next[idToRemove];
       return next;
     });
+    setExtractionWarnings((prev) => {
+      const next = { ...prev };
+      delete next[idToRemove];
+      return next;
+    });
 
-    const { newData, newMetadata, newSources } = removeDataForFileId(
+    const { newData, newMetadata, newSources, keptRows } = removeDataForFileId(
       idToRemove,
       fileData,
       editMetadata,
@@ -655,6 +1571,7 @@ export default function Home() {
     setFileData(newData);
     setEditMetadata(newMetadata);
     setRowSources(newSources);
+    setRowOffers((prev) => remapRows(prev, keptRows));
   };
 
   // --- Manual Retry Handler ---
@@ -666,11 +1583,13 @@ export default function Home() {
       fileData,
       editMetadata,
       rowSources,
+      true,
     );
     if (result) {
       setFileData(result.updatedData);
       setEditMetadata(result.newMetadata);
       setRowSources(result.newSources);
+      setRowOffers((prev) => remapRows(prev, result.keptRows));
     }
   };
 
@@ -679,33 +1598,36 @@ export default function Home() {
     newData: unknown[][],
     newSources?: Record<number, RowSourceInfo>,
   ) => {
-    const newMetadata = { ...editMetadata };
+    // Chat may have deleted rows; per-row state follows the rows it was for
+    const keptRows = matchEditedRows(fileData ?? [], newData);
+    const newMetadata: Record<string, EditSource> = {};
     newData.forEach((row, rIndex) => {
-      const isNewRow = !fileData || rIndex >= fileData.length;
+      const oldRow = keptRows[rIndex];
       row.forEach((cell, cIndex) => {
-        if (isNewRow) {
+        if (oldRow === null) {
           newMetadata[`${rIndex}-${cIndex}`] = "ai";
           return;
         }
-        const oldVal = fileData?.[rIndex]?.[cIndex];
-        if (String(cell) !== String(oldVal)) {
+        const oldVal = fileData?.[oldRow]?.[cIndex];
+        const oldMeta = editMetadata[`${oldRow}-${cIndex}`];
+        if (cellText(cell) !== cellText(oldVal)) {
           newMetadata[`${rIndex}-${cIndex}`] = "ai";
+        } else if (oldMeta) {
+          newMetadata[`${rIndex}-${cIndex}`] = oldMeta;
         }
       });
     });
 
-    let updatedSources = { ...rowSources };
-    if (newSources) {
-      updatedSources = { ...updatedSources, ...newSources };
-    }
+    const updatedSources = {
+      ...remapRows(rowSources, keptRows),
+      ...newSources,
+    };
 
-    setHistory((prev) => [
-      ...prev,
-      { data: fileData!, metadata: editMetadata, sources: rowSources },
-    ]);
+    commitToHistory();
     setFileData(newData);
     setEditMetadata(newMetadata);
     setRowSources(updatedSources);
+    setRowOffers((prev) => remapRows(prev, keptRows));
   };
 
   const startEditing = (
@@ -714,7 +1636,7 @@ export default function Home() {
     currentValue: unknown,
   ) => {
     setEditingCell({ rowIndex, colIndex });
-    setTempValue(String(currentValue ?? ""));
+    setTempValue(cellText(currentValue));
   };
 
   const saveEdit = () => {
@@ -722,9 +1644,27 @@ export default function Home() {
     const { rowIndex, colIndex } = editingCell;
     const newData = [...fileData];
     const newRow = [...(newData[rowIndex] as unknown[])];
-    if (String(newRow[colIndex]) !== tempValue) {
+    const oldValue = newRow[colIndex];
+    if (cellText(oldValue) !== tempValue) {
       commitToHistory();
-      newRow[colIndex] = tempValue;
+      // A price stays a price; its currency is kept unless one is typed
+      newRow[colIndex] = isMoney(oldValue)
+        ? (parseMoney(tempValue, oldValue.currency) ?? tempValue)
+        : tempValue;
+      // A new quantity on a quoted row changes the packs to order
+      const quoted = rowOffers[rowIndex];
+      const { cols, quantityCol, columnsAdded } = ensureQuoteColumns(
+        newData,
+        quotingConfig,
+      );
+      if (quoted && colIndex === quantityCol && !columnsAdded) {
+        writeOrderCells(
+          newRow,
+          quoted.offers[quoted.selected],
+          cols,
+          requiredQuantity(newRow, quantityCol, buildQuantity),
+        );
+      }
       newData[rowIndex] = newRow;
       setFileData(newData);
       setEditMetadata((prev) => ({
@@ -760,6 +1700,70 @@ export default function Home() {
 
   const headers = fileData?.[0] || [];
   const bodyRows = fileData?.slice(1) || [];
+  const isUnverifiedRow = (rowIndex: number) => {
+    const status = rowSources[rowIndex]?.verification?.status;
+    return status === "unverified" || status === "page-mismatch";
+  };
+  const unverifiedCount = bodyRows.filter((_, i) =>
+    isUnverifiedRow(i + 1),
+  ).length;
+  const isFilteringUnverified = showUnverifiedOnly && unverifiedCount > 0;
+  // The reference file behind the open citation, if it's still attached
+  const viewingFile =
+    viewingSource?.citation.type === "document"
+      ? extraFiles.find((f) => f.id === viewingSource.fileId)?.file
+      : undefined;
+
+  // "Last paid" per part, in the display currency
+  const historySummaries = useMemo(() => {
+    const summaries: Record<string, PartHistorySummary> = {};
+    Object.entries(partHistory).forEach(([part, entries]) => {
+      summaries[part] = summarizePartHistory(
+        entries,
+        quotingConfig.displayCurrency,
+        quotingConfig.exchangeRates,
+      );
+    });
+    return summaries;
+  }, [partHistory, quotingConfig.displayCurrency, quotingConfig.exchangeRates]);
+  const showHistory = Object.keys(historySummaries).length > 0;
+
+  // Prices are shown in the display currency when there's a rate for them
+  const displayCell = (cell: unknown) =>
+    isMoney(cell)
+      ? formatMoney(
+          convertMoney(
+            cell,
+            quotingConfig.displayCurrency,
+            quotingConfig.exchangeRates,
+          ) ?? cell,
+        )
+      : String(cell ?? "");
+  const now = Date.now();
+  const staleRowIndices = Object.entries(rowOffers)
+    .filter(([, quoted]) =>
+      isQuoteStale(quoted.quotedAt, quotingConfig.quoteValidityDays, now),
+    )
+    .map(([rowIndex]) => Number(rowIndex));
+  const quoteColumnIndices = Object.values(
+    quoteColumnHeaders(quotingConfig),
+  ).map((name) => findColumn(headers, name));
+  const isStaleCell = (rowIndex: number, colIndex: number) =>
+    staleRowIndices.includes(rowIndex) && quoteColumnIndices.includes(colIndex);
+  const lineTotalCol = findColumn(
+    headers,
+    quoteColumnHeaders(quotingConfig).lineTotal,
+  );
+  // Shown once the sheet has been quoted
+  const orderSummary =
+    fileData && lineTotalCol !== -1
+      ? summarizeOrder(
+          fileData,
+          lineTotalCol,
+          quotingConfig.displayCurrency,
+          quotingConfig.exchangeRates,
+        )
+      : null;
   const hasEdits = Object.keys(editMetadata).length > 0;
   const canUndo = history.length > 0;
   const canRedo = future.length > 0;
@@ -784,59 +1788,159 @@ export default function Home() {
               className="hidden"
             />
           </label>
+          {workbookSheets.filter((sheet) => sheet.rows.length > 0).length >
+            1 && (
+            <button
+              onClick={openSheetPicker}
+              className="max-w-50 cursor-pointer truncate rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm font-medium text-slate-300 transition-colors hover:bg-slate-700 hover:text-white"
+              title="Choose which sheets to show"
+            >
+              {activeSheetNames.length > 1
+                ? `${activeSheetNames.length} sheets combined`
+                : `Sheet: ${activeSheetNames[0]}`}
+            </button>
+          )}
           {fileData && (
             <>
+              {/* Spreadsheet references are imported locally, so this works without AI */}
+              <label
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm font-medium text-slate-300 transition-colors hover:bg-slate-700 hover:text-white",
+                )}
+              >
+                <PaperClipIcon className="h-4 w-4" /> Add Reference
+                <input
+                  type="file"
+                  multiple
+                  accept={
+                    !isAiEnabled
+                      ? ACCEPTED_FILE_TYPES
+                      : capabilities.fileInput
+                        ? undefined
+                        : `${ACCEPTED_FILE_TYPES},${TEXT_AND_IMAGE_FILE_TYPES}`
+                  }
+                  onChange={handleAddExtraFile}
+                  className="hidden"
+                />
+              </label>
               {isAiEnabled ? (
                 <>
-                  <label
-                    className={cn(
-                      "flex cursor-pointer items-center gap-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm font-medium text-slate-300 transition-colors hover:bg-slate-700 hover:text-white",
-                    )}
-                  >
-                    <PaperClipIcon className="h-4 w-4" /> Add Reference
-                    <input
-                      type="file"
-                      multiple
-                      onChange={handleAddExtraFile}
-                      className="hidden"
-                    />
-                  </label>
-
                   {/* Model Selector for Quoting */}
                   <div className="ml-2 flex items-center gap-2 border-l border-slate-700 pl-4">
                     <span className="hidden text-xs text-slate-500 xl:inline">
                       Quoting Model:
                     </span>
+                    {fallbackWarning && extraFiles.length === 0 && (
+                      <div className="group relative flex items-center justify-center">
+                        <div className="animate-pulse cursor-help text-orange-400">
+                          <WarningIcon className="h-4 w-4" />
+                        </div>
+                        <div className="pointer-events-none absolute top-full left-1/2 z-50 mt-2 hidden w-max max-w-[250px] -translate-x-1/2 rounded bg-black/90 px-3 py-2 text-xs text-white shadow-xl ring-1 ring-white/10 group-hover:block">
+                          {fallbackWarning}
+                        </div>
+                      </div>
+                    )}
                     <ModelSelector
                       models={availableModels}
                       selectedModel={currentModel}
                       onSelect={setCurrentModel}
                     />
                   </div>
-
-                  <button
-                    onClick={handleAutoQuote}
-                    disabled={isQuoting}
-                    className={cn(
-                      "flex items-center gap-2 rounded-lg border border-emerald-700/50 bg-emerald-900/20 px-3 py-2 text-sm font-medium text-emerald-300 transition-all hover:bg-emerald-900/40 hover:text-emerald-200 hover:shadow-lg hover:shadow-emerald-900/20",
-                      isQuoting && "cursor-wait opacity-70",
-                    )}
-                    title="Automatically fetch prices and delivery times from Conrad.de"
-                  >
-                    {isQuoting ? (
-                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-emerald-500/50 border-t-emerald-400" />
-                    ) : (
-                      <BanknotesIcon className="h-4 w-4" />
-                    )}
-                    Auto Quote
-                  </button>
                 </>
               ) : (
                 <div className="ml-2 flex items-center gap-2 rounded-lg border border-yellow-700/50 bg-yellow-900/20 px-3 py-2 text-xs font-medium text-yellow-200">
                   <WarningIcon className="h-4 w-4" />
-                  <span>AI Disabled (Missing API Key)</span>
+                  <span>AI Disabled (No Provider Configured)</span>
+                </div>
+              )}
+
+              {/* Supplier catalogs quote without AI; only web search needs it */}
+              <button
+                onClick={(e) => handleAutoQuote(e.shiftKey)}
+                disabled={isQuoting || !canQuote}
+                className={cn(
+                  "flex items-center gap-2 rounded-lg border border-emerald-700/50 bg-emerald-900/20 px-3 py-2 text-sm font-medium text-emerald-300 transition-all hover:bg-emerald-900/40 hover:text-emerald-200 hover:shadow-lg hover:shadow-emerald-900/20",
+                  isQuoting && "cursor-wait opacity-70",
+                  !canQuote && "cursor-not-allowed opacity-50",
+                )}
+                title={
+                  capabilities.webSearch
+                    ? `Automatically fetch prices and delivery times from ${[...supplierAdapters.map((a) => a.label), ...quotingConfig.suppliers].join(", ") || "online suppliers"}. Shift+click to ignore cached quotes.`
+                    : canQuote
+                      ? `Look up prices in ${supplierAdapters.map((a) => a.label).join(", ")}`
+                      : "Quoting needs an AI provider with web search or a supplier catalog"
+                }
+              >
+                {isQuoting ? (
+                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-emerald-500/50 border-t-emerald-400" />
+                ) : (
+                  <BanknotesIcon className="h-4 w-4" />
+                )}
+                Auto Quote
+              </button>
+              {!isQuoting && staleRowIndices.length > 0 && (
+                <button
+                  onClick={() => handleAutoQuote(true, staleRowIndices)}
+                  disabled={!canQuote}
+                  className="flex cursor-pointer items-center gap-1.5 rounded-lg border border-amber-700/50 bg-amber-900/20 px-3 py-2 text-xs font-medium text-amber-300 transition-colors hover:bg-amber-900/40 disabled:cursor-not-allowed disabled:opacity-50"
+                  title={`Search again for the ${staleRowIndices.length} row(s) quoted more than ${quotingConfig.quoteValidityDays} day(s) ago`}
+                >
+                  <ResetIcon className="h-3.5 w-3.5" />
+                  Re-quote stale ({staleRowIndices.length})
+                </button>
+              )}
+              {isQuoting && quoteProgress && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <div className="h-1.5 w-24 overflow-hidden rounded-full bg-slate-700">
+                    <div
+                      className="h-full bg-emerald-500 transition-all"
+                      style={{
+                        width: `${(quoteProgress.done / Math.max(quoteProgress.total, 1)) * 100}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="whitespace-nowrap">
+                    {quoteProgress.done}/{quoteProgress.total} rows
+                  </span>
+                  <button
+                    onClick={handleCancelQuote}
+                    className="cursor-pointer rounded p-1 text-slate-500 transition-colors hover:bg-slate-700 hover:text-red-400"
+                    title="Cancel quoting (rows quoted so far are kept)"
+                  >
+                    <XIcon className="h-4 w-4" />
+                  </button>
                 </div>
               )}
+              <label
+                className="flex items-center gap-1.5 text-xs text-slate-400"
+                title="Units to build; BOM quantities are multiplied by it and price breaks chosen for the result"
+              >
+                Build ×
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={buildQuantity}
+                  onFocus={() => {
+                    buildQuantityCommittedRef.current = false;
+                  }}
+                  onBlur={() => {
+                    buildQuantityCommittedRef.current = false;
+                  }}
+                  onChange={(e) =>
+                    handleBuildQuantityChange(
+                      Math.max(1, Math.floor(Number(e.target.value)) || 1),
+                    )
+                  }
+                  className="w-16 rounded border border-slate-600 bg-slate-900 px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500"
+                />
+              </label>
+              <QuotingSettings
+                config={quotingConfig}
+                onChange={setQuotingConfig}
+                priceListCount={priceLists.length}
+                onManagePriceLists={() => setIsPriceListsOpen(true)}
+              />
             </>
           )}
           {fileData && (
@@ -881,6 +1985,21 @@ export default function Home() {
               <ResetIcon className="h-4 w-4" /> Reset
             </button>
           )}
+          {unverifiedCount > 0 && (
+            <button
+              onClick={() => setShowUnverifiedOnly((show) => !show)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-colors",
+                isFilteringUnverified
+                  ? "border-amber-500/60 bg-amber-900/40 text-amber-200"
+                  : "border-slate-700 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white",
+              )}
+              title="Show only extracted rows whose quote could not be found on the cited page"
+            >
+              <WarningIcon className="h-4 w-4 text-amber-400" />
+              Unverified rows ({unverifiedCount})
+            </button>
+          )}
           {hasEdits && (
             <div className="ml-2 flex items-center gap-3 text-xs">
               <div className="flex items-center gap-1">
@@ -904,8 +2023,23 @@ export default function Home() {
               fileName={fileName || "edited_data"}
               onFileNameChange={(name) => setFileName(name)}
               initialFormat={detectedFormat}
+              onExport={exportData}
+              onExportOrder={
+                Object.keys(rowOffers).length > 0
+                  ? (name, format) => exportData(name, format, true)
+                  : undefined
+              }
+              keepOriginalLayout={
+                sourceWorkbook ? keepOriginalLayout : undefined
+              }
+              onKeepOriginalLayoutChange={setKeepOriginalLayout}
+              withSources={exportWithSources}
+              onWithSourcesChange={setExportWithSources}
             />
           )}
+          {isAiEnabled && (
+            <AiUsageSummary className={cn(!fileData && "ml-auto")} />
+          )}
         </div>
 
         {/* Bottom: References List */}
@@ -919,6 +2053,8 @@ export default function Home() {
                 const colorClass = FILE_CHIP_VARIANTS[refFile.colorIndex];
                 const isExtracting = extractingFileIds.includes(refFile.id);
                 const fileError = extractionErrors[refFile.id];
+                const fileWarning = extractionWarnings[refFile.id];
+                const chunks = extractionProgress[refFile.id];
                 return (
                   <div
                     key={refFile.id}
@@ -934,6 +2070,35 @@ export default function Home() {
                     >
                       {refFile.file.name}
                     </span>
+                    {!isExtracting && fileWarning && (
+                      <div className="group relative ml-1 flex items-center justify-center">
+                        <WarningIcon className="h-4 w-4 cursor-help text-orange-400" />
+                        <div className="pointer-events-none absolute bottom-full left-1/2 z-50 mb-2 hidden w-max max-w-[250px] -translate-x-1/2 rounded bg-black/90 px-3 py-2 text-xs text-white shadow-xl ring-1 ring-white/10 group-hover:block">
+                          {fileWarning}
+                          <div className="ring-r-1 ring-b-1 absolute top-full left-1/2 -mt-1 h-2 w-2 -translate-x-1/2 rotate-45 bg-black/90 ring-white/10"></div>
+                        </div>
+                      </div>
+                    )}
+                    {isExtracting && chunks && chunks.length > 1 && (
+                      <div
+                        className="ml-1 flex items-center gap-0.5"
+                        title={`${chunks.filter((c) => c.status === "done").length}/${chunks.length} page ranges extracted`}
+                      >
+                        {chunks.map((chunk) => (
+                          <span
+                            key={chunk.startPage}
+                            title={`Pages ${chunk.startPage}-${chunk.endPage}: ${chunk.status}`}
+                            className={cn(
+                              "h-2 w-1.5 rounded-sm bg-white/20",
+                              chunk.status === "running" &&
+                                "animate-pulse bg-white/60",
+                              chunk.status === "done" && "bg-white",
+                              chunk.status === "failed" && "bg-red-400",
+                            )}
+                          />
+                        ))}
+                      </div>
+                    )}
                     {isExtracting ? (
                       <span className="ml-1 h-3.5 w-3.5 animate-spin rounded-full border-2 border-white/50 border-t-white"></span>
                     ) : fileError ? (
@@ -955,7 +2120,11 @@ export default function Home() {
                         className={cn(
                           "ml-1 cursor-pointer rounded p-0.5 text-white/70 hover:bg-white/20 hover:text-white",
                         )}
-                        title="Re-run extraction (Refine)"
+                        title={
+                          isSpreadsheetFile(refFile.file)
+                            ? "Edit column mapping and re-import"
+                            : "Re-run extraction (Refine)"
+                        }
                       >
                         <MagicIcon className="h-3.5 w-3.5" />
                       </button>
@@ -1000,137 +2169,247 @@ export default function Home() {
         {/* Left: Table */}
         <div className="flex min-w-0 flex-1 flex-col transition-all duration-300">
           {fileData ? (
-            <div className="relative flex-1 overflow-hidden rounded-lg border border-slate-700 bg-slate-800 shadow-lg">
-              <div className="h-full overflow-auto">
-                <table className="w-full border-collapse text-left text-sm text-slate-400">
-                  <thead className="sticky top-0 z-10 bg-slate-900 text-xs font-bold text-slate-200 shadow-sm">
-                    <tr>
-                      {/* Status Column */}
-                      <th className="sticky left-0 z-20 w-20 border-b border-slate-700 bg-slate-900 px-3 py-3 text-center">
-                        <span className="sr-only">Source</span>
-                      </th>
-                      {/* Headers */}
-                      {[...headers].map((header, colIndex) => (
-                        <th
-                          key={colIndex}
-                          onDoubleClick={() =>
-                            startEditing(0, colIndex, header)
-                          }
-                          className={cn(
-                            "cursor-pointer border-b border-slate-700 px-6 py-3 tracking-wider whitespace-nowrap hover:bg-slate-800",
-                            !getCellHighlightClass(0, colIndex) &&
-                              (colIndex % 2 === 0
-                                ? "bg-slate-900"
-                                : "bg-slate-800"),
-                            getCellHighlightClass(0, colIndex),
-                            editingCell?.rowIndex === 0 &&
-                              editingCell?.colIndex === colIndex &&
-                              "p-0",
-                          )}
-                        >
-                          {editingCell?.rowIndex === 0 &&
-                          editingCell?.colIndex === colIndex ? (
-                            <input
-                              autoFocus
-                              type="text"
-                              value={tempValue}
-                              onChange={(e) => setTempValue(e.target.value)}
-                              onBlur={saveEdit}
-                              onKeyDown={handleInputKeyDown}
-                              className="h-full w-full rounded border-2 border-blue-500 bg-slate-700 px-2 py-1 text-xs font-bold text-white outline-none"
-                            />
-                          ) : (
-                            String(header ?? "")
-                          )}
+            <>
+              <div className="relative flex-1 overflow-hidden rounded-lg border border-slate-700 bg-slate-800 shadow-lg">
+                <div className="h-full overflow-auto">
+                  <table className="w-full border-collapse text-left text-sm text-slate-400">
+                    <thead className="sticky top-0 z-10 bg-slate-900 text-xs font-bold text-slate-200 shadow-sm">
+                      <tr>
+                        {/* Status Column */}
+                        <th className="sticky left-0 z-20 w-20 border-b border-slate-700 bg-slate-900 px-3 py-3 text-center">
+                          <span className="sr-only">Source</span>
                         </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-700">
-                    {bodyRows.map((row, rIndex) => {
-                      const rowIndex = rIndex + 1;
-                      const rowSource = rowSources[rowIndex];
-                      const isRowQuoting = quotingRowIndices.includes(rowIndex);
-                      return (
-                        <tr key={rowIndex}>
-                          {/* Status Cell */}
-                          <td className="sticky left-0 z-10 border-b border-slate-700 bg-slate-900/95 px-3 py-4 text-center">
-                            <div className="flex items-center justify-center gap-1">
-                              {rowSource && (
-                                <button
-                                  onClick={() => setViewingSource(rowSource)}
-                                  className="cursor-pointer text-slate-500 transition-colors hover:text-emerald-400"
-                                  title="View Source Citation"
-                                >
-                                  <BookIcon className="h-4 w-4" />
-                                </button>
-                              )}
-                              {isAiEnabled && (
+                        {showHistory && (
+                          <th
+                            className="border-b border-slate-700 bg-slate-900 px-3 py-3 tracking-wider whitespace-nowrap"
+                            title="From earlier exports and quotes of the same part number"
+                          >
+                            Last Paid
+                          </th>
+                        )}
+                        {/* Headers */}
+                        {[...headers].map((header, colIndex) => (
+                          <th
+                            key={colIndex}
+                            onDoubleClick={() =>
+                              startEditing(0, colIndex, header)
+                            }
+                            className={cn(
+                              "cursor-pointer border-b border-slate-700 px-6 py-3 tracking-wider whitespace-nowrap hover:bg-slate-800",
+                              !getCellHighlightClass(0, colIndex) &&
+                                (colIndex % 2 === 0
+                                  ? "bg-slate-900"
+                                  : "bg-slate-800"),
+                              getCellHighlightClass(0, colIndex),
+                              editingCell?.rowIndex === 0 &&
+                                editingCell?.colIndex === colIndex &&
+                                "p-0",
+                            )}
+                          >
+                            {editingCell?.rowIndex === 0 &&
+                            editingCell?.colIndex === colIndex ? (
+                              <input
+                                autoFocus
+                                type="text"
+                                value={tempValue}
+                                onChange={(e) => setTempValue(e.target.value)}
+                                onBlur={saveEdit}
+                                onKeyDown={handleInputKeyDown}
+                                className="h-full w-full rounded border-2 border-blue-500 bg-slate-700 px-2 py-1 text-xs font-bold text-white outline-none"
+                              />
+                            ) : (
+                              String(header ?? "")
+                            )}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {bodyRows.map((row, rIndex) => {
+                        const rowIndex = rIndex + 1;
+                        if (isFilteringUnverified && !isUnverifiedRow(rowIndex))
+                          return null;
+                        const rowSource = rowSources[rowIndex];
+                        const verification = rowSource?.verification;
+                        const isRowQuoting =
+                          quotingRowIndices.includes(rowIndex);
+                        return (
+                          <tr key={rowIndex}>
+                            {/* Status Cell */}
+                            <td className="sticky left-0 z-10 border-b border-slate-700 bg-slate-900/95 px-3 py-4 text-center">
+                              <div className="flex items-center justify-center gap-1">
+                                {rowSource && (
+                                  <button
+                                    onClick={() => setViewingSource(rowSource)}
+                                    className="relative cursor-pointer text-slate-500 transition-colors hover:text-emerald-400"
+                                    title={
+                                      verification
+                                        ? `View Source Citation (${CITATION_STATUS_LABELS[verification.status]})`
+                                        : "View Source Citation"
+                                    }
+                                  >
+                                    <BookIcon className="h-4 w-4" />
+                                    {verification && (
+                                      <span
+                                        className={cn(
+                                          "absolute -top-0.5 -right-0.5 h-2 w-2 rounded-full ring-2 ring-slate-900",
+                                          verification.status === "verified" &&
+                                            "bg-emerald-400",
+                                          verification.status ===
+                                            "page-mismatch" && "bg-amber-400",
+                                          verification.status ===
+                                            "unverified" && "bg-red-500",
+                                        )}
+                                      />
+                                    )}
+                                  </button>
+                                )}
+                                {(rowOffers[rowIndex]?.offers.length ?? 0) >
+                                  1 && (
+                                  <button
+                                    onClick={() =>
+                                      setViewingOffersRow(rowIndex)
+                                    }
+                                    className="cursor-pointer rounded px-1 text-[10px] font-semibold text-emerald-400/80 transition-colors hover:bg-slate-700 hover:text-emerald-300"
+                                    title={`Compare ${rowOffers[rowIndex].offers.length} offers`}
+                                  >
+                                    {rowOffers[rowIndex].offers.length}×
+                                  </button>
+                                )}
+                                {canQuote && (
+                                  <button
+                                    onClick={(e) =>
+                                      handleSingleRowQuote(rowIndex, e.shiftKey)
+                                    }
+                                    disabled={isRowQuoting}
+                                    className={cn(
+                                      "cursor-pointer rounded p-1 transition-colors hover:bg-slate-700",
+                                      isRowQuoting
+                                        ? "cursor-not-allowed opacity-50"
+                                        : "text-slate-500 hover:text-emerald-400",
+                                    )}
+                                    title="Quote this row (Shift+click to ignore cached quotes)"
+                                  >
+                                    {isRowQuoting ? (
+                                      <span className="block h-4 w-4 animate-spin rounded-full border-2 border-emerald-500/50 border-t-emerald-400" />
+                                    ) : (
+                                      <BanknotesIcon className="h-4 w-4" />
+                                    )}
+                                  </button>
+                                )}
+                              </div>
+                              {staleRowIndices.includes(rowIndex) ? (
                                 <button
-                                  onClick={() => handleSingleRowQuote(rowIndex)}
-                                  disabled={isRowQuoting}
-                                  className={cn(
-                                    "cursor-pointer rounded p-1 transition-colors hover:bg-slate-700",
-                                    isRowQuoting
-                                      ? "cursor-not-allowed opacity-50"
-                                      : "text-slate-500 hover:text-emerald-400",
-                                  )}
-                                  title="Quote this row"
+                                  onClick={() =>
+                                    handleSingleRowQuote(rowIndex, true)
+                                  }
+                                  disabled={isRowQuoting || !canQuote}
+                                  className="mt-1 cursor-pointer rounded bg-amber-900/40 px-1.5 py-0.5 text-[10px] whitespace-nowrap text-amber-300 transition-colors hover:bg-amber-900/60 disabled:cursor-default"
+                                  title={`Quoted more than ${quotingConfig.quoteValidityDays} day(s) ago. Click to search again.`}
                                 >
-                                  {isRowQuoting ? (
-                                    <span className="block h-4 w-4 animate-spin rounded-full border-2 border-emerald-500/50 border-t-emerald-400" />
-                                  ) : (
-                                    <BanknotesIcon className="h-4 w-4" />
-                                  )}
+                                  stale,{" "}
+                                  {formatQuoteAge(rowOffers[rowIndex].quotedAt)}
                                 </button>
-                              )}
-                            </div>
-                          </td>
-                          {/* Data Cells */}
-                          {[...row].map((cell, colIndex) => (
-                            <td
-                              key={colIndex}
-                              onDoubleClick={() =>
-                                startEditing(rowIndex, colIndex, cell)
-                              }
-                              className={cn(
-                                "relative min-w-25 cursor-pointer px-6 py-4 font-medium whitespace-nowrap text-slate-300",
-                                !getCellHighlightClass(rowIndex, colIndex) &&
-                                  (colIndex % 2 !== 0 ? "bg-slate-700/20" : ""),
-                                getCellHighlightClass(rowIndex, colIndex),
-                                "transition-colors",
-                                editingCell?.rowIndex === rowIndex &&
-                                  editingCell?.colIndex === colIndex &&
-                                  "p-0",
-                              )}
-                            >
-                              {editingCell?.rowIndex === rowIndex &&
-                              editingCell?.colIndex === colIndex ? (
-                                <input
-                                  autoFocus
-                                  type="text"
-                                  value={tempValue}
-                                  onChange={(e) => setTempValue(e.target.value)}
-                                  onBlur={saveEdit}
-                                  onKeyDown={handleInputKeyDown}
-                                  className="h-full w-full rounded border-2 border-blue-500 bg-slate-600 px-2 py-1.5 text-white outline-none"
-                                />
-                              ) : String(cell ?? "") === "" ? (
-                                <span className="absolute top-1 left-1 text-[10px] leading-none text-slate-400 italic opacity-60 select-none">
-                                  Empty
-                                </span>
                               ) : (
-                                String(cell)
+                                rowOffers[rowIndex]?.cachedAt && (
+                                  <button
+                                    onClick={() =>
+                                      handleSingleRowQuote(rowIndex, true)
+                                    }
+                                    disabled={isRowQuoting || !canQuote}
+                                    className="mt-1 cursor-pointer rounded bg-slate-700/60 px-1.5 py-0.5 text-[10px] whitespace-nowrap text-slate-400 transition-colors hover:bg-slate-700 hover:text-emerald-300 disabled:cursor-default disabled:hover:text-slate-400"
+                                    title="Reused from the quote cache. Click to search again."
+                                  >
+                                    cached,{" "}
+                                    {formatQuoteAge(
+                                      rowOffers[rowIndex].cachedAt!,
+                                    )}
+                                  </button>
+                                )
                               )}
                             </td>
-                          ))}
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
+                            {showHistory && (
+                              <td className="border-b border-slate-700 px-3 py-2 text-xs whitespace-nowrap">
+                                {rowParts[rowIndex] &&
+                                  historySummaries[rowParts[rowIndex]] && (
+                                    <PriceHistoryBadge
+                                      summary={
+                                        historySummaries[rowParts[rowIndex]]
+                                      }
+                                      formatPrice={displayCell}
+                                      onClick={() =>
+                                        setViewingHistoryPart(
+                                          rowParts[rowIndex],
+                                        )
+                                      }
+                                    />
+                                  )}
+                              </td>
+                            )}
+                            {/* Data Cells */}
+                            {[...row].map((cell, colIndex) => (
+                              <td
+                                key={colIndex}
+                                onDoubleClick={() =>
+                                  startEditing(rowIndex, colIndex, cell)
+                                }
+                                title={
+                                  isStaleCell(rowIndex, colIndex)
+                                    ? `Stale quote from ${new Date(rowOffers[rowIndex].quotedAt).toLocaleString()}`
+                                    : undefined
+                                }
+                                className={cn(
+                                  "relative min-w-25 cursor-pointer px-6 py-4 font-medium whitespace-nowrap text-slate-300",
+                                  !getCellHighlightClass(rowIndex, colIndex) &&
+                                    (colIndex % 2 !== 0
+                                      ? "bg-slate-700/20"
+                                      : ""),
+                                  getCellHighlightClass(rowIndex, colIndex),
+                                  isStaleCell(rowIndex, colIndex) &&
+                                    "text-amber-300/80 italic",
+                                  "transition-colors",
+                                  editingCell?.rowIndex === rowIndex &&
+                                    editingCell?.colIndex === colIndex &&
+                                    "p-0",
+                                )}
+                              >
+                                {editingCell?.rowIndex === rowIndex &&
+                                editingCell?.colIndex === colIndex ? (
+                                  <input
+                                    autoFocus
+                                    type="text"
+                                    value={tempValue}
+                                    onChange={(e) =>
+                                      setTempValue(e.target.value)
+                                    }
+                                    onBlur={saveEdit}
+                                    onKeyDown={handleInputKeyDown}
+                                    className="h-full w-full rounded border-2 border-blue-500 bg-slate-600 px-2 py-1.5 text-white outline-none"
+                                  />
+                                ) : cellText(cell) === "" ? (
+                                  <span className="absolute top-1 left-1 text-[10px] leading-none text-slate-400 italic opacity-60 select-none">
+                                    Empty
+                                  </span>
+                                ) : (
+                                  displayCell(cell)
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-            </div>
+              {orderSummary && (
+                <OrderSummaryFooter
+                  summary={orderSummary}
+                  priceBasis={quotingConfig.priceBasis}
+                  className="mt-2"
+                />
+              )}
+            </>
           ) : (
             <div className="flex h-full items-center justify-center rounded-lg border border-dashed border-slate-700 bg-slate-800/50">
               <span className="text-slate-500">Upload a file to view data</span>
@@ -1186,10 +2465,43 @@ export default function Home() {
         </div>
       )}
 
+      {pendingMapping && (
+        <ColumnMappingDialog
+          fileName={pendingMapping.refFile.file.name}
+          targetHeaders={pendingMapping.targetHeaders}
+          sourceRows={pendingMapping.plan.sheet.rows}
+          sourceColumns={pendingMapping.plan.sheet.columnIndices}
+          initialMapping={pendingMapping.plan.mapping}
+          initialProfile={pendingMapping.plan.profile}
+          profiles={mappingProfiles}
+          onProfilesChange={setMappingProfiles}
+          onConfirm={closeMappingDialog}
+          onCancel={() => closeMappingDialog(null)}
+        />
+      )}
+
+      {sheetPicker && (
+        <SheetPickerDialog
+          fileName={sheetPicker.fileName}
+          sheets={sheetPicker.sheets}
+          initialSelection={sheetPicker.initialSelection}
+          onConfirm={(sheetNames) => {
+            sheetPicker.onPick(sheetNames);
+            setSheetPicker(null);
+          }}
+          onCancel={() => setSheetPicker(null)}
+        />
+      )}
+
       {/* 3. CITATION MODAL */}
       {viewingSource && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm">
-          <div className="relative w-full max-w-md rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl">
+          <div
+            className={cn(
+              "relative max-h-[90vh] w-full overflow-y-auto rounded-lg border border-slate-700 bg-slate-800 p-6 shadow-2xl",
+              viewingFile ? "max-w-3xl" : "max-w-md",
+            )}
+          >
             <button
               onClick={() => setViewingSource(null)}
               className="absolute top-4 right-4 text-slate-400 hover:text-white"
@@ -1222,12 +2534,54 @@ export default function Home() {
                 </span>
               </div>
 
-              {/* Field 1.5: URL */}
+              {/* Field 1.2: When and by which model the quote was obtained */}
               {viewingSource.citation.type === "api" &&
-                viewingSource.citation.url && (
+                viewingSource.citation.retrievedAt && (
                   <div className="rounded border border-slate-700 bg-slate-900 p-3">
                     <span className="mb-1 block text-xs tracking-wider text-slate-500 uppercase">
+                      Retrieved
+                    </span>
+                    <span className="text-slate-300">
+                      {new Date(
+                        viewingSource.citation.retrievedAt,
+                      ).toLocaleString()}
+                      {viewingSource.citation.model &&
+                        ` · ${viewingSource.citation.model}`}
+                    </span>
+                  </div>
+                )}
+
+              {/* Field 1.5: URL */}
+              {viewingSource.citation.type === "api" &&
+                viewingSource.citation.url &&
+                (viewingSource.citation.urlGrounding === "ungrounded" ? (
+                  <div className="rounded border border-red-700/50 bg-red-900/20 p-3">
+                    <span className="mb-1 flex items-center gap-1 text-xs tracking-wider text-red-300 uppercase">
+                      <WarningIcon className="h-3.5 w-3.5" />
+                      Source Link {URL_GROUNDING_LABELS.ungrounded}
+                    </span>
+                    <span className="break-all text-slate-400 line-through">
+                      {viewingSource.citation.url}
+                    </span>
+                    <p className="mt-1 text-xs text-slate-400">
+                      The search tool never returned this page, so the link was
+                      likely made up. Check the search results below instead.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="rounded border border-slate-700 bg-slate-900 p-3">
+                    <span
+                      className={cn(
+                        "mb-1 block text-xs tracking-wider uppercase",
+                        viewingSource.citation.urlGrounding === "same-site"
+                          ? "text-amber-300"
+                          : "text-slate-500",
+                      )}
+                    >
                       Source Link
+                      {(viewingSource.citation.urlGrounding === "grounded" ||
+                        viewingSource.citation.urlGrounding === "same-site") &&
+                        ` · ${URL_GROUNDING_LABELS[viewingSource.citation.urlGrounding]}`}
                     </span>
                     <a
                       href={viewingSource.citation.url}
@@ -1237,6 +2591,50 @@ export default function Home() {
                     >
                       {viewingSource.citation.url}
                     </a>
+                    {viewingSource.citation.urlGrounding === "same-site" && (
+                      <p className="mt-1 text-xs text-slate-400">
+                        Search returned other pages of this shop, but not this
+                        one. Check that it shows the right product.
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+              {/* Field 1.6: What the web search actually returned */}
+              {viewingSource.citation.type === "api" &&
+                ((viewingSource.citation.searchResults?.length ?? 0) > 0 ||
+                  (viewingSource.citation.searchQueries?.length ?? 0) > 0) && (
+                  <div className="rounded border border-slate-700 bg-slate-900 p-3">
+                    <span className="mb-1 block text-xs tracking-wider text-slate-500 uppercase">
+                      Search Results
+                    </span>
+                    {viewingSource.citation.searchQueries?.map((query) => (
+                      <div key={query} className="text-xs text-slate-400">
+                        Searched:{" "}
+                        <span className="text-slate-300">{query}</span>
+                      </div>
+                    ))}
+                    <ul className="mt-2 space-y-1">
+                      {viewingSource.citation.searchResults?.map((result) => (
+                        <li key={result.uri} className="truncate">
+                          <a
+                            href={result.uri}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:underline"
+                            title={result.uri}
+                          >
+                            {result.title || result.uri}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                    {viewingSource.citation.searchResults?.length === 0 && (
+                      <p className="mt-1 text-xs text-slate-500">
+                        No search result for this row matches the quoted links
+                        or their shops.
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -1254,6 +2652,33 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Field 2.5: Local quote check */}
+              {viewingSource.verification && (
+                <div
+                  className={cn(
+                    "rounded border p-3",
+                    viewingSource.verification.status === "verified" &&
+                      "border-emerald-700/50 bg-emerald-900/20 text-emerald-200",
+                    viewingSource.verification.status === "page-mismatch" &&
+                      "border-amber-700/50 bg-amber-900/20 text-amber-200",
+                    viewingSource.verification.status === "unverified" &&
+                      "border-red-700/50 bg-red-900/20 text-red-200",
+                  )}
+                >
+                  <span className="mb-1 block text-xs tracking-wider uppercase opacity-70">
+                    Verification
+                  </span>
+                  <span className="font-medium">
+                    {CITATION_STATUS_LABELS[viewingSource.verification.status]}
+                  </span>
+                  {viewingSource.verification.detail && (
+                    <p className="mt-1 text-xs opacity-80">
+                      {viewingSource.verification.detail}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Field 3: Evidence (Quote or Reasoning) */}
               <div className="rounded border border-slate-700 bg-slate-900 p-3">
                 <span className="mb-1 block text-xs tracking-wider text-slate-500 uppercase">
@@ -1269,6 +2694,16 @@ export default function Home() {
                   "
                 </blockquote>
               </div>
+
+              {/* Field 4: The cited page itself */}
+              {viewingFile && viewingSource.citation.type === "document" && (
+                <SourcePreview
+                  file={viewingFile}
+                  page={Number(viewingSource.citation.page) || 1}
+                  quote={viewingSource.citation.quote}
+                  suggestedPage={viewingSource.verification?.foundOnPage}
+                />
+              )}
             </div>
 
             <div className="mt-6 flex justify-end">
@@ -1282,6 +2717,46 @@ export default function Home() {
           </div>
         </div>
       )}
+
+      {/* 4. QUOTING DIALOGS */}
+      {viewingHistoryPart && partHistory[viewingHistoryPart] && (
+        <PartHistoryDialog
+          entries={partHistory[viewingHistoryPart]}
+          currentProject={project}
+          displayCurrency={quotingConfig.displayCurrency}
+          exchangeRates={quotingConfig.exchangeRates}
+          onClose={() => setViewingHistoryPart(null)}
+        />
+      )}
+
+      {isPriceListsOpen && (
+        <PriceListsDialog
+          lists={priceLists}
+          onImport={handleImportPriceList}
+          onDelete={handleDeletePriceList}
+          onClose={() => setIsPriceListsOpen(false)}
+        />
+      )}
+
+      {viewingOffersRow !== null && rowOffers[viewingOffersRow] && (
+        <QuoteOffersDialog
+          rowLabel={(fileData?.[viewingOffersRow] ?? [])
+            .map(displayCell)
+            .filter(Boolean)
+            .join(" · ")}
+          offers={rowOffers[viewingOffersRow].offers}
+          quantity={requiredQuantity(
+            (fileData?.[viewingOffersRow] ?? []) as unknown[],
+            detectBomColumns(headers).quantity,
+            buildQuantity,
+          )}
+          displayCurrency={quotingConfig.displayCurrency}
+          exchangeRates={quotingConfig.exchangeRates}
+          selected={rowOffers[viewingOffersRow].selected}
+          onSelect={(index) => handleSelectOffer(viewingOffersRow, index)}
+          onClose={() => setViewingOffersRow(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  mergeChunkRows,
+  toOriginalPage,
+  type ExtractedRowWithSource,
+} from "./aiExtractionUtils";
+
+const row = (
+  data: string[],
+  page: number | string,
+): ExtractedRowWithSource => ({
+  data,
+  citation: { type: "document", page, quote: data.join(" ") },
+});
+
+const pageOf = (r: ExtractedRowWithSource) =>
+  r.citation.type === "document" ? r.citation.page : null;
+
+describe("toOriginalPage", () => {
+  const range = { startPage: 11, endPage: 20 };
+
+  it("keeps pages already in the chunk's range", () => {
+    expect(toOriginalPage(row([], 15).citation, range)).toMatchObject({
+      page: 15,
+    });
+  });
+
+  it("maps pages counted from the excerpt onto the document", () => {
+    expect(toOriginalPage(row([], 1).citation, range)).toMatchObject({
+      page: 11,
+    });
+    expect(toOriginalPage(row([], "10").citation, range)).toMatchObject({
+      page: 20,
+    });
+  });
+
+  it("leaves pages it can't place alone", () => {
+    expect(toOriginalPage(row([], 42).citation, range)).toMatchObject({
+      page: 42,
+    });
+    expect(toOriginalPage(row([], "ii").citation, range)).toMatchObject({
+      page: "ii",
+    });
+    const sheet = {
+      type: "spreadsheet" as const,
+      location: "B2",
+      reasoning: "",
+    };
+    expect(toOriginalPage(sheet, range)).toBe(sheet);
+  });
+});
+
+describe("mergeChunkRows", () => {
+  it("keeps a row from the overlapping page once", () => {
+    const merged = mergeChunkRows([
+      [row(["R1", "10k"], 9), row(["R2", "1k"], 10)],
+      [row(["r2", " 1k "], 10), row(["R3", "2k"], 11)],
+    ]);
+    expect(merged.map((r) => r.data[0])).toEqual(["R1", "R2", "R3"]);
+  });
+
+  it("tolerates a one-page difference in the citation", () => {
+    const merged = mergeChunkRows([
+      [row(["R2", "1k"], 10)],
+      [row(["R2", "1k"], 11)],
+    ]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it("keeps repeats within a chunk or pages apart", () => {
+    const merged = mergeChunkRows([
+      [row(["C1", "100n"], 2), row(["C1", "100n"], 3)],
+      [row(["C1", "100n"], 15)],
+    ]);
+    expect(merged.map(pageOf)).toEqual([2, 3, 15]);
+  });
+
+  it("compares neighbouring chunks when pages are unknown", () => {
+    const merged = mergeChunkRows([
+      [row(["U1"], "n/a")],
+      [row(["U1"], "n/a")],
+      [],
+      [row(["U1"], "n/a")],
+    ]);
+    expect(merged).toHaveLength(2);
+  });
+});
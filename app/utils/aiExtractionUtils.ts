@@ -1,15 +1,113 @@
-import { generateContentWithFallback } from "./geminiApi";
+import {
+  CITATION_SCHEMAS,
+  checkCitation,
+  parseJsonResponse,
+  validateItems,
+  type InvalidItem,
+} from "./aiSchemaUtils";
+import { mapWithConcurrency } from "./asyncUtils";
+import type { UrlGrounding } from "./groundingUtils";
+import { LlmError } from "./llm/errors";
+import type { JsonSchema, LlmContent, LlmGroundingSource } from "./llm/types";
+import { generateContentWithFallback } from "./llmApi";
+import { getPdfPageCount, isPdfFile, splitPdfIntoChunks } from "./pdfUtils";
 
 export type ExtractionCitation =
   | { type: "document"; page: string | number; quote: string }
   | { type: "spreadsheet"; location: string; reasoning: string }
-  | { type: "api"; endpoint: string; reasoning: string; url?: string }; // <--- Added url
+  | {
+      type: "api";
+      endpoint: string;
+      reasoning: string;
+      url?: string;
+      urlGrounding?: UrlGrounding; // Web quotes: was url a real search hit
+      searchQueries?: string[];
+      searchResults?: LlmGroundingSource[];
+      retrievedAt?: number; // Web quotes: when and by which model
+      model?: string;
+    };
 
 export type ExtractedRowWithSource = {
   data: string[];
   citation: ExtractionCitation;
 };
 
+export type ExtractionResult = {
+  rows: ExtractedRowWithSource[];
+  invalidRows: InvalidItem[]; // Rows the model returned that failed validation
+  failedChunks: { startPage: number; endPage: number; reason: string }[];
+  finalModel: string;
+};
+
+export type ChunkProgress = {
+  startPage: number;
+  endPage: number;
+  status: "pending" | "running" | "done" | "failed";
+};
+
+type PageRange = { startPage: number; endPage: number };
+
+type RetryCallback = (
+  failedModel: string,
+  nextModel: string,
+  reason: LlmError,
+) => void;
+
+// PDFs longer than this are split and extracted chunk by chunk
+const PDF_PAGES_PER_CHUNK = 10;
+const PDF_CHUNK_CONCURRENCY = 3;
+
+const buildExtractionSchema = (
+  columnCount: number,
+  citationType: "document" | "spreadsheet",
+): JsonSchema => ({
+  type: "object",
+  properties: {
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          data: {
+            type: "array",
+            items: { type: "string" },
+            minItems: columnCount,
+            maxItems: columnCount,
+          },
+          citation: CITATION_SCHEMAS[citationType],
+        },
+        required: ["data", "citation"],
+      },
+    },
+  },
+  required: ["rows"],
+});
+
+// Checks one row from the model against the target headers. Returns the
+// row on success or the reason it was rejected.
+const validateExtractedRow =
+  (columnCount: number) =>
+  (item: unknown): ExtractedRowWithSource | string => {
+    if (typeof item !== "object" || item === null) return "not an object";
+    const { data, citation } = item as Record<string, unknown>;
+
+    if (!Array.isArray(data)) return "'data' is not an array";
+    if (data.length !== columnCount) {
+      return `expected ${columnCount} values, got ${data.length}`;
+    }
+    if (data.some((v) => v !== null && typeof v === "object")) {
+      return "'data' contains nested values";
+    }
+
+    const citationError = checkCitation(citation);
+    if (citationError) return citationError;
+
+    return {
+      data: data.map((v) => (v == null ? "" : String(v))),
+      citation: citation as ExtractionCitation,
+    };
+  };
+
 const readFileAsBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -23,22 +121,47 @@ const readFileAsBase64 = (file: File): Promise<string> => {
   });
 };
 
-export async function extractDataFromReference(
+// Models sometimes number pages relative to the excerpt they were sent.
+// Map those back onto the original document's page numbers.
+export const toOriginalPage = (
+  citation: ExtractionCitation,
+  range: PageRange,
+): ExtractionCitation => {
+  if (citation.type !== "document") return citation;
+  const page = Number(citation.page);
+  if (!Number.isInteger(page)) return citation;
+
+  const chunkLength = range.endPage - range.startPage + 1;
+  if (page >= range.startPage && page <= range.endPage) {
+    return { ...citation, page };
+  }
+  if (page >= 1 && page <= chunkLength) {
+    return { ...citation, page: range.startPage + page - 1 };
+  }
+  return citation;
+};
+
+async function extractFromFile(
   file: File,
   currentHeaders: unknown[],
   startModel: string,
   availableModels: string[],
-): Promise<{ rows: ExtractedRowWithSource[]; finalModel: string } | null> {
-  try {
-    const base64Data = await readFileAsBase64(file);
-    const isSpreadsheet = /\.(csv|xlsx|xls|ods)$/i.test(file.name);
-    const fileTypeContext = isSpreadsheet
-      ? "SPREADSHEET/CSV"
-      : "DOCUMENT (PDF/Image)";
-
-    // FORENSIC AUDITOR PROMPT
-    // This prompt forces the model to find the evidence FIRST, before creating the data row.
-    const prompt = `
+  onRetry: RetryCallback | undefined,
+  usageLabel: string,
+  pageRange?: PageRange,
+): Promise<ExtractionResult | null> {
+  const base64Data = await readFileAsBase64(file);
+  const isSpreadsheet = /\.(csv|xlsx|xls|ods)$/i.test(file.name);
+  const fileTypeContext = isSpreadsheet
+    ? "SPREADSHEET/CSV"
+    : "DOCUMENT (PDF/Image)";
+  const pageRule = pageRange
+    ? `This file contains pages ${pageRange.startPage}-${pageRange.endPage} of a longer PDF. Report each row's page as its position in the ORIGINAL PDF: the first page of this file is page ${pageRange.startPage}.`
+    : `If the document has page markers (e.g. "Seite 1/18"), use them. If not, count the pages sequentially.`;
+
+  // FORENSIC AUDITOR PROMPT
+  // This prompt forces the model to find the evidence FIRST, before creating the data row.
+  const prompt = `
       ROLE: Forensic Data Auditor.
       TASK: Extract a Bill of Materials (BOM) strictly from the provided ${fileTypeContext}.
       
@@ -52,7 +175,7 @@ export async function extractDataFromReference(
          - If the document contains Python code, Scripts, or non-BOM text, return { "rows": [] }.
          - Do not invent part numbers.
          - Do not guess quantities. If quantity is not listed, leave it blank or "1" only if implied by a singular noun.
-      4. PAGE NUMBERS: If the document has page markers (e.g. "Seite 1/18"), use them. If not, count the pages sequentially.
+      4. PAGE NUMBERS: ${pageRule}
 
       OUTPUT JSON FORMAT:
       {
@@ -69,55 +192,230 @@ export async function extractDataFromReference(
       }
     `;
 
-    const contents = [
-      {
-        role: "user",
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: file.type || "application/pdf",
-            },
+  const contents: LlmContent[] = [
+    {
+      role: "user",
+      parts: [
+        {
+          inlineData: {
+            data: base64Data,
+            mimeType: file.type || "application/pdf",
           },
-          { text: prompt },
-        ],
+        },
+        { text: prompt },
+      ],
+    },
+  ];
+
+  const { text: responseText, finalModel } = await generateContentWithFallback(
+    startModel,
+    availableModels,
+    "You are a robotic data scraper. You have no imagination. You only extract facts present in the text.",
+    contents,
+    {
+      onRetry: (failed, next, reason) => {
+        console.warn(`Extraction: ${failed} failed, retrying with ${next}`);
+        onRetry?.(failed, next, reason);
+      },
+      // CRITICAL: Force Temperature 0.0 to kill hallucinations
+      config: {
+        temperature: 0.0,
+        responseSchema: buildExtractionSchema(
+          currentHeaders.length,
+          isSpreadsheet ? "spreadsheet" : "document",
+        ),
       },
-    ];
+      usage: { operation: "extraction", label: usageLabel },
+    },
+  );
 
-    const { text: responseText, finalModel } =
-      await generateContentWithFallback(
-        startModel,
-        availableModels,
-        "You are a robotic data scraper. You have no imagination. You only extract facts present in the text.",
-        contents,
-        (failed, next) =>
-          console.warn(`Extraction: ${failed} failed, retrying with ${next}`),
-        // CRITICAL: Force Temperature 0.0 to kill hallucinations
-        { temperature: 0.0 },
+  console.log("Raw AI Response:", responseText);
+
+  const parsedObj = parseJsonResponse(responseText, "object");
+  const rawRows = (parsedObj as { rows?: unknown }).rows;
+  if (!Array.isArray(rawRows)) {
+    console.error("Extraction response has no 'rows' array");
+    return null;
+  }
+
+  const { valid, invalid } = validateItems(
+    rawRows,
+    validateExtractedRow(currentHeaders.length),
+  );
+  if (invalid.length > 0) {
+    console.warn("Extraction: rejected invalid rows", invalid);
+  }
+
+  const rows = pageRange
+    ? valid.map((row) => ({
+        ...row,
+        citation: toOriginalPage(row.citation, pageRange),
+      }))
+    : valid;
+
+  return { rows, invalidRows: invalid, failedChunks: [], finalModel };
+}
+
+const rowKey = (row: ExtractedRowWithSource) =>
+  row.data
+    .map((v) => v.trim().toLowerCase().replace(/\s+/g, " "))
+    .join("\u241f");
+
+const citationPage = (row: ExtractedRowWithSource) =>
+  row.citation.type === "document" ? Number(row.citation.page) : NaN;
+
+// Merges chunk results in page order. Chunks overlap by a page, so a row
+// seen in two neighbouring chunks on (nearly) the same page is kept once.
+export function mergeChunkRows(chunkRows: ExtractedRowWithSource[][]) {
+  const merged: ExtractedRowWithSource[] = [];
+  const seen = new Map<string, { chunk: number; page: number }[]>();
+
+  chunkRows.forEach((rows, chunk) => {
+    rows.forEach((row) => {
+      const key = rowKey(row);
+      const page = citationPage(row);
+      const earlier = seen.get(key) ?? [];
+      const isBoundaryDuplicate = earlier.some(
+        (e) =>
+          e.chunk !== chunk &&
+          (Number.isNaN(page) || Number.isNaN(e.page)
+            ? Math.abs(e.chunk - chunk) === 1
+            : Math.abs(e.page - page) <= 1),
       );
+      if (isBoundaryDuplicate) return;
+
+      seen.set(key, [...earlier, { chunk, page }]);
+      merged.push(row);
+    });
+  });
+  return merged;
+}
 
-    console.log("Raw AI Response:", responseText);
+async function extractFromPdfChunks(
+  file: File,
+  currentHeaders: unknown[],
+  startModel: string,
+  availableModels: string[],
+  onRetry: RetryCallback | undefined,
+  onProgress: ((chunks: ChunkProgress[]) => void) | undefined,
+): Promise<ExtractionResult | null> {
+  const chunks = await splitPdfIntoChunks(file, PDF_PAGES_PER_CHUNK);
+  const progress: ChunkProgress[] = chunks.map(({ startPage, endPage }) => ({
+    startPage,
+    endPage,
+    status: "pending",
+  }));
+  const setStatus = (index: number, status: ChunkProgress["status"]) => {
+    progress[index] = { ...progress[index], status };
+    onProgress?.([...progress]);
+  };
+  onProgress?.([...progress]);
+
+  // Once a chunk has fallen back to another model, later chunks start there
+  let activeModel = startModel;
 
-    const startIndex = responseText.indexOf("{");
-    const endIndex = responseText.lastIndexOf("}");
+  const settled = await mapWithConcurrency(
+    chunks,
+    PDF_CHUNK_CONCURRENCY,
+    async (chunk, index) => {
+      setStatus(index, "running");
+      try {
+        const result = await extractFromFile(
+          chunk.file,
+          currentHeaders,
+          activeModel,
+          availableModels,
+          onRetry,
+          file.name,
+          chunk,
+        );
+        if (!result) throw new Error("No valid JSON in the response");
+        activeModel = result.finalModel;
+        setStatus(index, "done");
+        return result;
+      } catch (err) {
+        setStatus(index, "failed");
+        throw err;
+      }
+    },
+  );
 
-    if (startIndex === -1 || endIndex === -1) {
-      return { rows: [], finalModel };
+  const failedChunks: ExtractionResult["failedChunks"] = [];
+  const invalidRows: InvalidItem[] = [];
+  const chunkRows = settled.map((outcome, index) => {
+    const { startPage, endPage } = chunks[index];
+    if (outcome.status === "rejected") {
+      const reason =
+        outcome.reason instanceof Error
+          ? outcome.reason.message
+          : String(outcome.reason);
+      failedChunks.push({ startPage, endPage, reason });
+      return [];
     }
+    outcome.value.invalidRows.forEach((item) =>
+      invalidRows.push({
+        ...item,
+        reason: `${item.reason} (pages ${startPage}-${endPage})`,
+      }),
+    );
+    return outcome.value.rows;
+  });
 
-    const cleanJson = responseText.substring(startIndex, endIndex + 1);
+  // Nothing to merge: surface the provider error like a single request would
+  if (failedChunks.length === chunks.length) {
+    const firstError = settled.find((o) => o.status === "rejected");
+    if (
+      firstError?.status === "rejected" &&
+      firstError.reason instanceof LlmError
+    ) {
+      throw firstError.reason;
+    }
+    return null;
+  }
 
-    try {
-      const parsedObj = JSON.parse(cleanJson);
-      if (parsedObj.rows && Array.isArray(parsedObj.rows)) {
-        return { rows: parsedObj.rows, finalModel };
-      }
-      return { rows: [], finalModel };
-    } catch (e) {
-      console.error("JSON Parse Error:", e);
-      return null;
+  return {
+    rows: mergeChunkRows(chunkRows),
+    invalidRows,
+    failedChunks,
+    finalModel: activeModel,
+  };
+}
+
+export async function extractDataFromReference(
+  file: File,
+  currentHeaders: unknown[],
+  startModel: string,
+  availableModels: string[],
+  onRetry?: RetryCallback,
+  onProgress?: (chunks: ChunkProgress[]) => void,
+): Promise<ExtractionResult | null> {
+  try {
+    const pageCount = isPdfFile(file)
+      ? await getPdfPageCount(file).catch(() => 0)
+      : 0;
+
+    if (pageCount > PDF_PAGES_PER_CHUNK) {
+      return await extractFromPdfChunks(
+        file,
+        currentHeaders,
+        startModel,
+        availableModels,
+        onRetry,
+        onProgress,
+      );
     }
+
+    return await extractFromFile(
+      file,
+      currentHeaders,
+      startModel,
+      availableModels,
+      onRetry,
+      file.name,
+    );
   } catch (error) {
+    // Provider failures are surfaced so the UI can say what went wrong
+    if (error instanceof LlmError) throw error;
     console.error("Extraction Failed:", error);
     return null;
   }
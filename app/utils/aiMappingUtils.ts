@@ -0,0 +1,97 @@
+import { parseJsonResponse } from "./aiSchemaUtils";
+import type { LlmError } from "./llm/errors";
+import type { JsonSchema, LlmContent } from "./llm/types";
+import { generateContentWithFallback } from "./llmApi";
+import type { ColumnMapping } from "./spreadsheetImportUtils";
+
+const MAPPING_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    mapping: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          target: { type: "integer" },
+          source: { type: "integer" },
+        },
+        required: ["target", "source"],
+      },
+    },
+  },
+  required: ["mapping"],
+};
+
+const SAMPLE_ROW_COUNT = 5;
+
+// Asks the model which reference column feeds each target header. Only the
+// headers and a few sample rows are sent; the rows themselves are imported
+// locally. Invalid or duplicate pairs are dropped, so the result may be sparse.
+export async function proposeColumnMapping(
+  targetHeaders: unknown[],
+  sourceRows: unknown[][],
+  startModel: string,
+  availableModels: string[],
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void,
+  usageLabel?: string,
+): Promise<{ mapping: ColumnMapping; finalModel: string }> {
+  const [sourceHeaders = [], ...samples] = sourceRows;
+
+  const prompt = `
+      TASK: Map the columns of a reference spreadsheet onto the columns of a target sheet.
+
+      TARGET COLUMNS (index: header):
+      ${targetHeaders.map((h, i) => `${i}: ${String(h ?? "")}`).join("\n      ")}
+
+      SOURCE COLUMNS (index: header):
+      ${sourceHeaders.map((h, i) => `${i}: ${String(h ?? "")}`).join("\n      ")}
+
+      SAMPLE SOURCE ROWS:
+      ${JSON.stringify(samples.slice(0, SAMPLE_ROW_COUNT))}
+
+      RULES:
+      1. Return one entry per target column: { "target": <target index>, "source": <source index> }.
+      2. Use "source": -1 when no source column holds that data. Never guess.
+      3. Each source column may be used at most once.
+
+      OUTPUT JSON FORMAT:
+      { "mapping": [{ "target": 0, "source": 2 }, ...] }
+    `;
+
+  const contents: LlmContent[] = [{ role: "user", parts: [{ text: prompt }] }];
+
+  const { text, finalModel } = await generateContentWithFallback(
+    startModel,
+    availableModels,
+    "You map spreadsheet columns by meaning, across languages.",
+    contents,
+    {
+      onRetry,
+      config: { temperature: 0, responseSchema: MAPPING_RESPONSE_SCHEMA },
+      usage: { operation: "extraction", label: usageLabel },
+    },
+  );
+
+  const parsed = parseJsonResponse(text, "object") as { mapping?: unknown };
+  const mapping: ColumnMapping = targetHeaders.map(() => null);
+  const usedSources = new Set<number>();
+
+  if (Array.isArray(parsed.mapping)) {
+    parsed.mapping.forEach((entry) => {
+      const { target, source } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof target !== "number" || typeof source !== "number") return;
+      const isValid =
+        Number.isInteger(target) &&
+        Number.isInteger(source) &&
+        mapping[target] === null &&
+        source >= 0 &&
+        source < sourceHeaders.length &&
+        !usedSources.has(source);
+      if (!isValid) return;
+      usedSources.add(source);
+      mapping[target] = source;
+    });
+  }
+
+  return { mapping, finalModel };
+}
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  QUOTE_BATCH_SIZE,
+  quoteProducts,
+  quoteProductsInBatches,
+  type QuotedRow,
+} from "./aiQuotingUtils";
+import { money } from "./currencyUtils";
+import { DEFAULT_QUOTING_CONFIG } from "./quotingConfigUtils";
+import type { SupplierAdapter } from "./suppliers/types";
+
+const HEADERS = ["Part Number", "Qty"];
+
+const offer = (supplier: string, price: number) => ({
+  supplier,
+  totalPrice: price,
+  pricePerUnit: price,
+  pricesIncludeVat: false,
+  estimatedDelivery: "2 days",
+  packQuantity: 1,
+  sourceUrl: "",
+  reasoning: "",
+});
+
+// The model's answer for each request, as the generate route returns it
+function stubModel(...answers: unknown[][]) {
+  const prompts: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      prompts.push(body.contents[0].parts[0].text);
+      return Response.json({ text: JSON.stringify(answers.shift() ?? []) });
+    }),
+  );
+  return prompts;
+}
+
+// A catalog listing only `partNumber`
+const catalog = (partNumber: string): SupplierAdapter => ({
+  id: "catalog",
+  label: "Catalog",
+  search: async (query) =>
+    query.partNumber === partNumber
+      ? [{ articleNumber: "A-1", partNumber }]
+      : [],
+  fetchOffer: async () => ({
+    unitPrice: money(1, "EUR"),
+    pricesIncludeVat: false,
+    packQuantity: 1,
+    priceBreaks: [],
+    stock: 5,
+  }),
+});
+
+const quote = (rows: unknown[][], adapters: SupplierAdapter[] = []) =>
+  quoteProducts(
+    rows,
+    HEADERS,
+    "model-a",
+    ["model-a"],
+    DEFAULT_QUOTING_CONFIG,
+    undefined,
+    "batch-quote",
+    undefined,
+    adapters,
+  );
+
+type QuoteItem = { rowId: number; data: unknown[] };
+
+// Answers each search with `answer` for the rows sent in it
+function stubSearch(
+  answer: (items: QuoteItem[]) => unknown[] | Response | Promise<Response>,
+) {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const prompt: string = JSON.parse(String(init?.body)).contents[0].parts[0]
+      .text;
+    const items: QuoteItem[] = JSON.parse(prompt.match(/ROWS: (\[.*\])/)![1]);
+    const result = await answer(items);
+    return result instanceof Response
+      ? result
+      : Response.json({ text: JSON.stringify(result) });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const quoteEach = (items: QuoteItem[]) =>
+  items.map(({ rowId, data }) => ({
+    rowId,
+    offers: [offer(`Shop for ${data[0]}`, 1)],
+    reasoning: "",
+  }));
+
+// Caller rows start at 1, below the header
+const bomRows = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    rowIndex: i + 1,
+    data: [`PART-${i + 1}`, "1"],
+  }));
+
+const quoteInBatches = (
+  rows: ReturnType<typeof bomRows>,
+  options: Parameters<typeof quoteProductsInBatches>[5] = {},
+) =>
+  quoteProductsInBatches(
+    rows,
+    HEADERS,
+    "model-a",
+    ["model-a"],
+    DEFAULT_QUOTING_CONFIG,
+    options,
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("quoteProducts", () => {
+  it("maps searched rows back past the catalog hits", async () => {
+    stubModel([
+      { rowId: 1, offers: [offer("Shop A", 3)], reasoning: "" },
+      { rowId: 2, offers: [offer("Shop B", 4)], reasoning: "" },
+    ]);
+    const result = await quote(
+      [
+        ["NE555", "1"],
+        ["LM358", "2"],
+        ["TL072", "1"],
+      ],
+      [catalog("LM358")],
+    );
+
+    const byRow = Object.fromEntries(
+      result!.quotes.map((q) => [q.rowId, q.offers[0].supplier]),
+    );
+    expect(byRow).toEqual({ 1: "Shop A", 2: "Catalog", 3: "Shop B" });
+  });
+
+  it("ignores row ids the model made up", async () => {
+    stubModel([
+      { rowId: 1, offers: [offer("Shop A", 3)], reasoning: "" },
+      { rowId: 7, offers: [offer("Shop B", 4)], reasoning: "" },
+    ]);
+    const result = await quote([
+      ["NE555", "1"],
+      ["TL072", "1"],
+    ]);
+
+    expect(result!.quotes.map((q) => q.rowId)).toEqual([1]);
+    expect(result!.invalidQuotes).toEqual([
+      { index: 1, rowId: undefined, reason: "unknown rowId 7" },
+      { index: -1, rowId: 2, reason: "no quote returned" },
+    ]);
+  });
+
+  it("doesn't search when the catalogs have every row", async () => {
+    const prompts = stubModel();
+    const result = await quote([["LM358", "2"]], [catalog("LM358")]);
+    expect(result!.quotes).toHaveLength(1);
+    expect(prompts).toHaveLength(0);
+  });
+});
+
+describe("quoteProductsInBatches", () => {
+  it("quotes in batches and maps rows back to the caller's indices", async () => {
+    const fetchMock = stubSearch(quoteEach);
+    const onBatch = vi.fn();
+    const onProgress = vi.fn();
+    const summary = await quoteInBatches(bomRows(QUOTE_BATCH_SIZE + 2), {
+      onBatch,
+      onProgress,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(summary).toMatchObject({
+      quotedRows: QUOTE_BATCH_SIZE + 2,
+      failedBatches: [],
+      cancelled: false,
+    });
+    const quoted = onBatch.mock.calls.flatMap(([result]) => result.quotes);
+    const last = quoted.find((q) => q.rowId === QUOTE_BATCH_SIZE + 2);
+    expect(last.offers[0].supplier).toBe(
+      `Shop for PART-${QUOTE_BATCH_SIZE + 2}`,
+    );
+    expect(onProgress).toHaveBeenLastCalledWith(
+      QUOTE_BATCH_SIZE + 2,
+      QUOTE_BATCH_SIZE + 2,
+    );
+  });
+
+  it("keeps a batch's valid quotes when the model makes up a row", async () => {
+    stubSearch(() => [
+      { rowId: 1, offers: [offer("Shop A", 3)], reasoning: "" },
+      { rowId: 7, offers: [offer("Shop B", 4)], reasoning: "" },
+    ]);
+    const rows = bomRows(2).map((row) => ({
+      ...row,
+      rowIndex: row.rowIndex + 4,
+    }));
+    const onBatch = vi.fn();
+    const summary = await quoteInBatches(rows, { onBatch });
+
+    expect(summary.failedBatches).toEqual([]);
+    expect(
+      onBatch.mock.calls[0][0].quotes.map((q: QuotedRow) => q.rowId),
+    ).toEqual([5]);
+    expect(summary.invalidQuotes.map((item) => item.rowId)).toEqual([
+      undefined,
+      6,
+    ]);
+  });
+
+  it("reports a failed batch and keeps the others", async () => {
+    stubSearch((items) =>
+      items.some(({ data }) => data[0] === "PART-1")
+        ? Response.json({ error: "bad", kind: "bad_request" }, { status: 400 })
+        : quoteEach(items),
+    );
+    const summary = await quoteInBatches(bomRows(QUOTE_BATCH_SIZE + 1));
+
+    expect(summary.quotedRows).toBe(1);
+    expect(summary.failedBatches).toHaveLength(1);
+    expect(summary.failedBatches[0].rowIds).toEqual(
+      bomRows(QUOTE_BATCH_SIZE).map((row) => row.rowIndex),
+    );
+  });
+
+  it("throws the provider error when every batch failed", async () => {
+    stubSearch(() =>
+      Response.json({ error: "no key", kind: "auth" }, { status: 401 }),
+    );
+    await expect(quoteInBatches(bomRows(2))).rejects.toMatchObject({
+      kind: "auth",
+    });
+  });
+
+  it("stops on abort and keeps what was quoted", async () => {
+    const controller = new AbortController();
+    // The first batch answers; the others hang until cancelled
+    let answered = false;
+    stubSearch((items) => {
+      if (!answered) {
+        answered = true;
+        return quoteEach(items);
+      }
+      return new Promise<Response>((_, reject) =>
+        controller.signal.addEventListener("abort", () =>
+          reject(new DOMException("Aborted", "AbortError")),
+        ),
+      );
+    });
+    const summary = await quoteInBatches(bomRows(QUOTE_BATCH_SIZE * 3), {
+      signal: controller.signal,
+      onBatch: () => controller.abort(),
+    });
+
+    expect(summary).toMatchObject({
+      quotedRows: QUOTE_BATCH_SIZE,
+      failedBatches: [],
+      cancelled: true,
+    });
+  });
+});
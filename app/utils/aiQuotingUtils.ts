@@ -1,110 +1,710 @@
-import { generateContentWithFallback } from "./geminiApi";
+import {
+  isNotAvailable,
+  isRecord,
+  NOT_AVAILABLE,
+  parseJsonResponse,
+  parsePrice,
+  validateItems,
+  type InvalidItem,
+} from "./aiSchemaUtils";
+import type { AiOperation } from "./aiUsageStore";
+import { mapWithConcurrency } from "./asyncUtils";
+import {
+  convertMoney,
+  money,
+  type ExchangeRates,
+  type Money,
+} from "./currencyUtils";
+import {
+  checkUrlGrounding,
+  queriesForRow,
+  sourcesForRow,
+  sourcesForUrls,
+  type UrlGrounding,
+} from "./groundingUtils";
+import { LlmError } from "./llm/errors";
+import type {
+  JsonSchema,
+  LlmContent,
+  LlmGrounding,
+  LlmGroundingSource,
+} from "./llm/types";
+import { generateContentWithFallback } from "./llmApi";
+import { lookupSupplierQuotes } from "./suppliers/lookup";
+import type { SupplierAdapter } from "./suppliers/types";
+import {
+  MARKET_PRESETS,
+  toPriceBasis,
+  type PriceBasis,
+  type QuotingConfig,
+} from "./quotingConfigUtils";
 
-export type QuotedRow = {
-  rowId: number;
-  totalNetPrice: string | number;
-  netPricePerUnit: string | number;
+// From `minQuantity` pieces on, each piece costs `pricePerUnit`
+export type PriceBreak = {
+  minQuantity: number;
+  pricePerUnit: Money;
+};
+
+// Web search summarised by the model, or an exact supplier catalog entry
+export type OfferOrigin = "web-search" | "catalog";
+
+// One shop's price for an item. Prices are in the configured price basis
+// and the shop's currency; null when the shop shows none.
+export type QuoteOffer = {
+  supplier: string;
+  totalPrice: Money | null;
+  pricePerUnit: Money | null;
+  priceBasis: PriceBasis;
   estimatedDelivery: string;
   packQuantity: string | number;
+  priceBreaks: PriceBreak[]; // Volume tiers, ascending; empty when none
+  stock: number | null; // Only catalogs report stock
   sourceUrl: string;
+  urlGrounding: UrlGrounding; // Whether search actually returned sourceUrl
+  origin: OfferOrigin;
+  catalogArticle?: { file: string; articleNumber: string }; // Imported price lists
   reasoning: string;
 };
 
+export type QuotedRow = {
+  rowId: number;
+  offers: QuoteOffer[]; // Empty when the product wasn't found
+  reasoning: string;
+  searchQueries: string[]; // What was searched for this row
+  searchResults: LlmGroundingSource[]; // Results on the offers' sites
+  quotedAt: number; // When the prices were looked up (ms since epoch)
+  model: string; // The model that looked them up
+};
+
+export type QuoteResult = {
+  quotes: QuotedRow[];
+  invalidQuotes: InvalidItem[]; // Malformed items and rows the model skipped
+  grounding?: LlmGrounding; // Everything the search tool returned
+};
+
+export const MAX_OFFERS_PER_ROW = 3;
+
+const OFFER_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    supplier: { type: "string" },
+    totalPrice: { anyOf: [{ type: "number" }, { type: "string" }] },
+    pricePerUnit: { anyOf: [{ type: "number" }, { type: "string" }] },
+    currency: { type: "string" },
+    pricesIncludeVat: { type: "boolean" },
+    packQuantity: { anyOf: [{ type: "integer" }, { type: "string" }] },
+    priceBreaks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          minQuantity: { type: "integer" },
+          pricePerUnit: { anyOf: [{ type: "number" }, { type: "string" }] },
+        },
+        required: ["minQuantity", "pricePerUnit"],
+      },
+    },
+    estimatedDelivery: { type: "string" },
+    sourceUrl: { type: "string" },
+    reasoning: { type: "string" },
+  },
+  required: [
+    "supplier",
+    "totalPrice",
+    "pricePerUnit",
+    "currency",
+    "pricesIncludeVat",
+    "packQuantity",
+    "priceBreaks",
+    "estimatedDelivery",
+    "sourceUrl",
+    "reasoning",
+  ],
+};
+
+const QUOTE_RESPONSE_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      rowId: { type: "integer" },
+      offers: { type: "array", items: OFFER_SCHEMA },
+      reasoning: { type: "string" },
+    },
+    required: ["rowId", "offers", "reasoning"],
+  },
+};
+
+// Prices must be real amounts or the explicit "N/A" marker
+const normalizePrice = (
+  value: unknown,
+): number | typeof NOT_AVAILABLE | null =>
+  isNotAvailable(value) ? NOT_AVAILABLE : parsePrice(value);
+
+// Unreadable tiers are dropped rather than failing the offer
+const parsePriceBreaks = (
+  value: unknown,
+  convert: (price: number) => Money,
+): PriceBreak[] => {
+  if (!Array.isArray(value)) return [];
+  const tiers = new Map<number, Money>();
+  value.forEach((item) => {
+    if (typeof item !== "object" || item === null) return;
+    const t = item as Record<string, unknown>;
+    const minQuantity = Number(t.minQuantity);
+    const price = parsePrice(t.pricePerUnit);
+    if (!Number.isInteger(minQuantity) || minQuantity < 1) return;
+    if (price === null || price < 0) return;
+    tiers.set(minQuantity, convert(price));
+  });
+  return [...tiers]
+    .sort(([a], [b]) => a - b)
+    .map(([minQuantity, pricePerUnit]) => ({ minQuantity, pricePerUnit }));
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const validateOffer = (
+  item: unknown,
+  config: QuotingConfig,
+): QuoteOffer | string => {
+  if (typeof item !== "object" || item === null) return "not an object";
+  const o = item as Record<string, unknown>;
+
+  const totalPrice = normalizePrice(o.totalPrice);
+  if (totalPrice === null) return "totalPrice is not a number";
+  const pricePerUnit = normalizePrice(o.pricePerUnit);
+  if (pricePerUnit === null) return "pricePerUnit is not a number";
+  const includesVat = o.pricesIncludeVat;
+  if (typeof includesVat !== "boolean") {
+    return "pricesIncludeVat is not a boolean";
+  }
+  // A shop abroad may list another currency than the configured one
+  const currency =
+    typeof o.currency === "string" && /^[A-Z]{3}$/i.test(o.currency.trim())
+      ? o.currency.trim().toUpperCase()
+      : config.currency;
+  // Shops show net or gross depending on customer type; convert here
+  // instead of trusting the model's arithmetic
+  const convert = (price: number, decimals: number) =>
+    money(
+      toPriceBasis(price, includesVat, config, decimals),
+      currency,
+      decimals,
+    );
+  const convertOrNull = (
+    price: number | typeof NOT_AVAILABLE,
+    decimals: number,
+  ) => (price === NOT_AVAILABLE ? null : convert(price, decimals));
+
+  const packQuantity = isNotAvailable(o.packQuantity)
+    ? NOT_AVAILABLE
+    : Number(o.packQuantity);
+  if (
+    packQuantity !== NOT_AVAILABLE &&
+    !(Number.isFinite(packQuantity) && packQuantity > 0)
+  ) {
+    return "packQuantity is not a positive number";
+  }
+
+  const sourceUrl = typeof o.sourceUrl === "string" ? o.sourceUrl.trim() : "";
+  if (sourceUrl && !isHttpUrl(sourceUrl)) return "sourceUrl is not a URL";
+
+  return {
+    supplier: typeof o.supplier === "string" ? o.supplier.trim() : "",
+    totalPrice: convertOrNull(totalPrice, 2),
+    pricePerUnit: convertOrNull(pricePerUnit, 4),
+    priceBasis: config.priceBasis,
+    packQuantity,
+    priceBreaks: parsePriceBreaks(o.priceBreaks, (price) => convert(price, 4)),
+    estimatedDelivery:
+      typeof o.estimatedDelivery === "string" ? o.estimatedDelivery : "",
+    sourceUrl,
+    stock: null,
+    urlGrounding: "unchecked", // Set once the grounding metadata is known
+    origin: "web-search",
+    reasoning: typeof o.reasoning === "string" ? o.reasoning : "",
+  };
+};
+
+const validateQuote =
+  (
+    rowCount: number,
+    seenRowIds: Set<number>,
+    config: QuotingConfig,
+    obtained: Pick<QuotedRow, "quotedAt" | "model">,
+  ) =>
+  (item: unknown): QuotedRow | string => {
+    if (typeof item !== "object" || item === null) return "not an object";
+    const q = item as Record<string, unknown>;
+
+    const rowId = Number(q.rowId);
+    if (!Number.isInteger(rowId) || rowId < 1 || rowId > rowCount) {
+      return `unknown rowId ${JSON.stringify(q.rowId)}`;
+    }
+    if (seenRowIds.has(rowId)) return `duplicate quote for row ${rowId}`;
+    if (!Array.isArray(q.offers)) return "offers is not an array";
+
+    // A bad offer is dropped; the row only fails if no offer survives
+    const results = q.offers
+      .slice(0, MAX_OFFERS_PER_ROW)
+      .map((offer) => validateOffer(offer, config));
+    const offers = results.filter(
+      (r): r is QuoteOffer => typeof r !== "string",
+    );
+    if (results.length > 0 && offers.length === 0) {
+      return `offer 1: ${results[0]}`;
+    }
+
+    seenRowIds.add(rowId);
+    return {
+      rowId,
+      offers,
+      reasoning: typeof q.reasoning === "string" ? q.reasoning : "",
+      searchQueries: [],
+      searchResults: [],
+      ...obtained,
+    };
+  };
+
+// Compares each offer's URL with what the search tool really returned and
+// attaches the row's queries and results for the citation
+const applyGrounding = (
+  quote: QuotedRow,
+  row: unknown[],
+  grounding: LlmGrounding | undefined,
+): QuotedRow => {
+  const urls = quote.offers.map((offer) => offer.sourceUrl).filter(Boolean);
+  const sources = sourcesForRow(row, urls, grounding);
+  return {
+    ...quote,
+    offers: quote.offers.map((offer) => ({
+      ...offer,
+      urlGrounding: checkUrlGrounding(offer.sourceUrl, grounding, sources),
+    })),
+    searchQueries: queriesForRow(row, grounding),
+    searchResults: sourcesForUrls(urls, sources),
+  };
+};
+
+// The price each offer is compared at: as quoted when every priced offer
+// is in one currency, else in EUR. null without a price or without a rate
+// to convert it.
+function comparablePrices(offers: QuoteOffer[], rates: ExchangeRates) {
+  const currencies = new Set(
+    offers.flatMap((offer) =>
+      offer.pricePerUnit ? [offer.pricePerUnit.currency] : [],
+    ),
+  );
+  return offers.map((offer) => {
+    if (!offer.pricePerUnit) return null;
+    if (currencies.size === 1) return offer.pricePerUnit.amount;
+    return convertMoney(offer.pricePerUnit, "EUR", rates)?.amount ?? null;
+  });
+}
+
+// Offers with a price that can't be compared to the others, since there's
+// no exchange rate for their currency
+export function incomparableOffers(
+  offers: QuoteOffer[],
+  rates: ExchangeRates,
+): number[] {
+  const prices = comparablePrices(offers, rates);
+  return offers.flatMap((offer, i) =>
+    offer.pricePerUnit && prices[i] === null ? [i] : [],
+  );
+}
+
+// Index of the offer to use by default: the lowest unit price, with the
+// more preferred supplier (listed first) winning ties. Offers whose link
+// search never returned only win when nothing else has a price. Offers
+// that can't be compared (see incomparableOffers) only win when no price
+// can be compared, and then the first priced one does.
+export function pickBestOffer(
+  offers: QuoteOffer[],
+  rates: ExchangeRates,
+): number {
+  const prices = comparablePrices(offers, rates);
+  const cheapest = (candidates: number[]) => {
+    let best = -1;
+    candidates.forEach((i) => {
+      const price = prices[i];
+      if (price === null) return;
+      const bestPrice = best === -1 ? null : prices[best];
+      if (bestPrice === null || price < bestPrice) best = i;
+    });
+    return best;
+  };
+  const all = offers.map((_, i) => i);
+  const trusted = cheapest(
+    all.filter((i) => offers[i].urlGrounding !== "ungrounded"),
+  );
+  if (trusted !== -1) return trusted;
+  const any = cheapest(all);
+  if (any !== -1) return any;
+  return Math.max(
+    offers.findIndex((offer) => offer.pricePerUnit),
+    0,
+  );
+}
+
+// Quotes rows from the supplier catalogs first. Rows none of them has go
+// to web search, unless the config says to rely on the catalogs alone.
 export async function quoteProducts(
   rows: unknown[][],
   headers: unknown[],
   startModel: string,
   availableModels: string[],
-): Promise<QuotedRow[] | null> {
+  config: QuotingConfig,
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void,
+  operation: Extract<
+    AiOperation,
+    "batch-quote" | "single-quote"
+  > = "batch-quote",
+  signal?: AbortSignal,
+  adapters: SupplierAdapter[] = [],
+): Promise<QuoteResult | null> {
+  const fromCatalogs = await lookupSupplierQuotes(
+    rows,
+    headers,
+    adapters,
+    config,
+    signal,
+  );
+  const catalogQuotes = [...fromCatalogs.values()];
+  const misses = rows
+    .map((row, i) => ({ row, rowId: i + 1 }))
+    .filter(({ rowId }) => !fromCatalogs.has(rowId));
+  if (misses.length === 0) return { quotes: catalogQuotes, invalidQuotes: [] };
+
+  if (adapters.length > 0 && config.supplierLookup === "instead-of-search") {
+    const notFound = misses.map(({ rowId }) => ({
+      rowId,
+      offers: [],
+      reasoning: "Not in the supplier catalogs",
+      searchQueries: [],
+      searchResults: [],
+      quotedAt: Date.now(),
+      model: "supplier catalog",
+    }));
+    return { quotes: [...catalogQuotes, ...notFound], invalidQuotes: [] };
+  }
+
+  const result = await searchQuotes(
+    misses.map(({ row }) => row),
+    headers,
+    startModel,
+    availableModels,
+    config,
+    onRetry,
+    operation,
+    signal,
+  );
+  if (!result) {
+    return catalogQuotes.length > 0
+      ? { quotes: catalogQuotes, invalidQuotes: [] }
+      : null;
+  }
+  // Ids of the searched subset back to ids of `rows`; ids outside it
+  // (made up by the model) map to none
+  const toRowId = (rowId: number | undefined) =>
+    rowId === undefined ? undefined : misses[rowId - 1]?.rowId;
+  return {
+    quotes: [
+      ...catalogQuotes,
+      ...result.quotes.flatMap((q) => {
+        const rowId = toRowId(q.rowId);
+        return rowId === undefined ? [] : [{ ...q, rowId }];
+      }),
+    ],
+    invalidQuotes: result.invalidQuotes.map((item) => ({
+      ...item,
+      rowId: toRowId(item.rowId),
+    })),
+    grounding: result.grounding,
+  };
+}
+
+async function searchQuotes(
+  rows: unknown[][],
+  headers: unknown[],
+  startModel: string,
+  availableModels: string[],
+  config: QuotingConfig,
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void,
+  operation: Extract<
+    AiOperation,
+    "batch-quote" | "single-quote"
+  > = "batch-quote",
+  signal?: AbortSignal,
+): Promise<QuoteResult | null> {
   // Prepare data (Row ID + Data)
   const itemsToQuote = rows.map((row, index) => ({
     rowId: index + 1,
     data: row,
   }));
 
+  const { country } = MARKET_PRESETS[config.market];
+  const [primary = "", ...others] = config.suppliers;
+  const storeLine = others.length
+    ? `${primary} (primary), ${others.join(", ")}, or similar suppliers shipping to ${country}.`
+    : `${primary || "Industrial suppliers"} (primary) or similar suppliers shipping to ${country}.`;
+
   const prompt = `
     ROLE: B2B Procurement Assistant.
     
-    TASK: Find the current price and availability for the products below using Google Search.
+    TASK: Find the current price and availability for the products below using Google Search. Collect up to ${MAX_OFFERS_PER_ROW} offers per product, each from a different supplier, preferred stores first.
     
-    TARGET STORE: Conrad.de (primary), Voelkner, or similar German industrial suppliers.
+    TARGET MARKET: ${country}. Prices in ${config.currency}.
+    TARGET STORES: ${storeLine}
     
     INPUT DATA:
     HEADERS: ${JSON.stringify(headers)}
     ROWS: ${JSON.stringify(itemsToQuote)}
 
     SEARCH STRATEGY:
-    1. **Search Query**: For each item, search for "Conrad [Part Number] [Manufacturer]" or "buy [Part Number] [Manufacturer] price".
+    1. **Search Query**: Search in ${config.language}. For each item, search for "${primary ? `${primary} ` : ""}[Part Number] [Manufacturer]" or "buy [Part Number] [Manufacturer] price".
     2. **Formatting**: If a search fails, try different formats (e.g. "8806.000" instead of "8806000").
     3. **Verify**: Ensure the product page matches the description.
 
     PRICING RULES:
-    1. **Net Price**: We need B2B (Net) prices. If only Gross (with VAT) is found, calculate: Net = Gross / 1.19.
-    2. **Pack Size**: Check if it's a pack (e.g. "Pack of 10").
-    3. **Delivery**: Look for "Sofort verfügbar" (1-3 days) or specific dates.
+    1. **Prices as shown**: Report totalPrice and pricePerUnit exactly as the shop shows them, and the shop's currency as an ISO code in currency (usually ${config.currency}). Do not add or remove VAT yourself or convert currencies.
+    2. **VAT**: Set pricesIncludeVat to true if the shown price includes VAT (${config.vatRate}% in ${country}), false if it is a net/B2B price.
+    3. **Pack Size**: Check if it's a pack (e.g. "Pack of 10").
+    4. **Price Breaks**: If the shop lists volume prices (e.g. "from 10 pcs"), report each tier in priceBreaks as the minimum number of pieces and the price per piece from that quantity on. Use an empty array if there are none.
+    5. **Delivery**: Report the shop's stated delivery time or date, written in ${config.language}.
+    6. **One offer per shop**: Each offer is a separate product page with its own price and sourceUrl. Never merge prices from different shops into one offer.
 
     CRITICAL URL RULES (VIOLATION = FAILURE):
     - **sourceUrl**: You MUST use the EXACT URL returned by the Google Search tool. 
     - **DO NOT GUESS URLs**: Do not construct URLs like "shop.com/product/123" if you didn't click/see them. 
     - If the search tool does not provide a direct link to a product page, leave sourceUrl empty.
-    - **Consistency**: The 'sourceUrl' domain must match the supplier mentioned in 'reasoning'.
+    - **Consistency**: Each offer's 'sourceUrl' domain must match its 'supplier'.
 
     OUTPUT REQUIREMENTS:
     - You MUST return a JSON Array.
     - You MUST return an object for EVERY single input row.
-    - If a product is NOT found, set values to "N/A", sourceUrl to "", and reasoning to "Product not found".
+    - If a product is NOT found anywhere, return an empty offers array and set reasoning to "Product not found".
 
     OUTPUT FORMAT (JSON ONLY):
     [
       {
         "rowId": 123,
-        "totalNetPrice": "125.50",
-        "netPricePerUnit": "12.55",
-        "packQuantity": 10,
-        "estimatedDelivery": "1-3 Werktage",
-        "sourceUrl": "https://www.conrad.de/de/p/rittal-vx-...",
-        "reasoning": "Found on Conrad.de (Art. 2251303). Price 149.35€ Gross. In Stock."
+        "offers": [
+          {
+            "supplier": "example-shop.com",
+            "totalPrice": "149.35",
+            "pricePerUnit": "14.94",
+            "currency": "${config.currency}",
+            "pricesIncludeVat": true,
+            "packQuantity": 10,
+            "priceBreaks": [{ "minQuantity": 50, "pricePerUnit": "13.50" }],
+            "estimatedDelivery": "1-3 days",
+            "sourceUrl": "https://www.example-shop.com/p/rittal-vx-...",
+            "reasoning": "Art. 2251303. Price 149.35 ${config.currency} incl. VAT. In stock."
+          }
+        ],
+        "reasoning": "Found on 1 of the preferred stores; exact part number match."
       }
     ]
   `;
 
-  const contents = [{ role: "user", parts: [{ text: prompt }] }];
+  const contents: LlmContent[] = [{ role: "user", parts: [{ text: prompt }] }];
 
   try {
-    const { text: responseText } = await generateContentWithFallback(
+    const {
+      text: responseText,
+      grounding,
+      finalModel,
+    } = await generateContentWithFallback(
       startModel,
       availableModels,
       "You are a procurement agent with access to Google Search. You never invent URLs.",
       contents,
-      undefined,
-      { temperature: 0.0 }, // Lowered to 0.0 to reduce hallucinations
-      // Pass the tool definition compatible with @google/genai
-      [{ googleSearch: {} }],
+      {
+        onRetry,
+        // Lowered to 0.0 to reduce hallucinations; prices come from web search
+        config: {
+          temperature: 0.0,
+          webSearch: true,
+          responseSchema: QUOTE_RESPONSE_SCHEMA,
+        },
+        usage: { operation },
+        signal,
+      },
     );
 
     console.log("Quoting Response:", responseText);
 
-    // Robust parsing to handle Markdown blocks
-    const jsonMatch =
-      responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
-      responseText.match(/\[[\s\S]*\]/);
+    const parsedData = parseJsonResponse(responseText, "array");
+    if (!Array.isArray(parsedData)) return null;
 
-    if (!jsonMatch) {
-      console.warn("No JSON found in response");
-      return null;
-    }
+    const seenRowIds = new Set<number>();
+    const { valid, invalid } = validateItems(
+      parsedData,
+      validateQuote(rows.length, seenRowIds, config, {
+        quotedAt: Date.now(),
+        model: finalModel,
+      }),
+    );
+    invalid.forEach((item) => {
+      const reported = parsedData[item.index];
+      const rowId = Number(isRecord(reported) ? reported.rowId : NaN);
+      if (Number.isInteger(rowId) && rowId >= 1 && rowId <= rows.length) {
+        item.rowId = rowId;
+      }
+    });
+
+    // Every input row must come back, even if only as "N/A"
+    itemsToQuote.forEach(({ rowId }) => {
+      const reported = invalid.some((item) => item.rowId === rowId);
+      if (!seenRowIds.has(rowId) && !reported) {
+        invalid.push({ index: -1, rowId, reason: "no quote returned" });
+      }
+    });
 
-    const cleanJson = jsonMatch[0].replace(/```json|```/g, "").trim();
+    if (invalid.length > 0) {
+      console.warn("Quoting: rejected invalid quotes", invalid);
+    }
 
-    try {
-      const parsedData = JSON.parse(cleanJson);
-      return Array.isArray(parsedData) ? parsedData : null;
-    } catch (e) {
-      console.error("JSON Parse Error:", e);
-      return null;
+    const quotes = valid.map((quote) =>
+      applyGrounding(quote, rows[quote.rowId - 1], grounding),
+    );
+    const ungroundedCount = quotes
+      .flatMap((quote) => quote.offers)
+      .filter((offer) => offer.urlGrounding === "ungrounded").length;
+    if (ungroundedCount > 0) {
+      console.warn(`Quoting: ${ungroundedCount} URL(s) not in search results`);
     }
+
+    return { quotes, invalidQuotes: invalid, grounding };
   } catch (error) {
+    // Provider failures are surfaced so the UI can say what went wrong
+    if (error instanceof LlmError) throw error;
     console.error("Quoting Failed:", error);
     return null;
   }
 }
+
+// Small batches keep each prompt (and each web search session) manageable;
+// a failed batch only loses its own rows
+export const QUOTE_BATCH_SIZE = 10;
+const QUOTE_CONCURRENCY = 3;
+
+export type QuoteBatchOptions = {
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void;
+  // Called as soon as a batch is quoted; rowIds are the caller's row indices
+  onBatch?: (result: QuoteResult) => void;
+  onProgress?: (doneRows: number, totalRows: number) => void;
+  signal?: AbortSignal;
+  adapters?: SupplierAdapter[]; // Supplier catalogs tried before web search
+};
+
+export type BatchQuoteSummary = {
+  quotedRows: number;
+  invalidQuotes: InvalidItem[];
+  failedBatches: { rowIds: number[]; reason: string }[];
+  cancelled: boolean;
+};
+
+// Quotes `rows` (keyed by the caller's row index) in batches with a few
+// requests in flight. Results are handed to onBatch as they arrive, so
+// a cancelled or partly failed run still keeps what was quoted.
+export async function quoteProductsInBatches(
+  rows: { rowIndex: number; data: unknown[] }[],
+  headers: unknown[],
+  startModel: string,
+  availableModels: string[],
+  config: QuotingConfig,
+  { onRetry, onBatch, onProgress, signal, adapters }: QuoteBatchOptions = {},
+): Promise<BatchQuoteSummary> {
+  const batches: (typeof rows)[] = [];
+  for (let i = 0; i < rows.length; i += QUOTE_BATCH_SIZE) {
+    batches.push(rows.slice(i, i + QUOTE_BATCH_SIZE));
+  }
+
+  let doneRows = 0;
+  onProgress?.(doneRows, rows.length);
+  const summary: BatchQuoteSummary = {
+    quotedRows: 0,
+    invalidQuotes: [],
+    failedBatches: [],
+    cancelled: false,
+  };
+
+  const settled = await mapWithConcurrency(
+    batches,
+    QUOTE_CONCURRENCY,
+    async (batch) => {
+      try {
+        const result = await quoteProducts(
+          batch.map((row) => row.data),
+          headers,
+          startModel,
+          availableModels,
+          config,
+          onRetry,
+          "batch-quote",
+          signal,
+          adapters,
+        );
+        if (!result) throw new Error("No valid JSON in the response");
+        // Batch-local ids (1..n) back to the caller's row indices; any
+        // other id maps to none, without costing the batch its valid quotes
+        const toRowIndex = (rowId: number | undefined) =>
+          rowId === undefined ? undefined : batch[rowId - 1]?.rowIndex;
+        const mapped: QuoteResult = {
+          quotes: result.quotes.flatMap((q) => {
+            const rowId = toRowIndex(q.rowId);
+            return rowId === undefined ? [] : [{ ...q, rowId }];
+          }),
+          invalidQuotes: result.invalidQuotes.map((item) => ({
+            ...item,
+            rowId: toRowIndex(item.rowId),
+          })),
+          grounding: result.grounding,
+        };
+        summary.quotedRows += mapped.quotes.length;
+        summary.invalidQuotes.push(...mapped.invalidQuotes);
+        onBatch?.(mapped);
+        return mapped;
+      } finally {
+        // Failed batches count as done too; the bar tracks work, not success
+        if (!signal?.aborted) {
+          doneRows += batch.length;
+          onProgress?.(doneRows, rows.length);
+        }
+      }
+    },
+  );
+
+  summary.cancelled = !!signal?.aborted;
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") return;
+    const error = outcome.reason;
+    if (error instanceof LlmError && error.kind === "aborted") return;
+    summary.failedBatches.push({
+      rowIds: batches[index].map((row) => row.rowIndex),
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  // Nothing quoted at all: surface the provider error like a single request
+  const firstError = settled.find((o) => o.status === "rejected");
+  if (
+    !summary.cancelled &&
+    summary.failedBatches.length === batches.length &&
+    firstError?.status === "rejected" &&
+    firstError.reason instanceof LlmError
+  ) {
+    throw firstError.reason;
+  }
+  return summary;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkCitation,
+  parseJsonResponse,
+  parsePrice,
+  validateItems,
+} from "./aiSchemaUtils";
+
+describe("parsePrice", () => {
+  it("passes finite numbers through", () => {
+    expect(parsePrice(12.55)).toBe(12.55);
+    expect(parsePrice(Number.NaN)).toBeNull();
+    expect(parsePrice(Infinity)).toBeNull();
+  });
+
+  it("reads dot and comma decimals", () => {
+    expect(parsePrice("12.55")).toBe(12.55);
+    expect(parsePrice("12,55")).toBe(12.55);
+  });
+
+  it("drops thousands separators and currency", () => {
+    expect(parsePrice("1.234,50 €")).toBe(1234.5);
+    expect(parsePrice("$1,234.50")).toBe(1234.5);
+    expect(parsePrice("EUR -3,10")).toBe(-3.1);
+  });
+
+  it("returns null for anything without an amount", () => {
+    expect(parsePrice("N/A")).toBeNull();
+    expect(parsePrice("")).toBeNull();
+    expect(parsePrice(null)).toBeNull();
+    expect(parsePrice({ amount: 1 })).toBeNull();
+  });
+});
+
+describe("parseJsonResponse", () => {
+  it("reads JSON from a fenced block with prose around it", () => {
+    const text = 'Here you go:\n```json\n[{"rowId": 1}]\n```\nDone.';
+    expect(parseJsonResponse(text, "array")).toEqual([{ rowId: 1 }]);
+  });
+
+  it("takes the outermost brackets without a fence", () => {
+    expect(parseJsonResponse('Result: {"a": [1]} ok', "object")).toEqual({
+      a: [1],
+    });
+  });
+
+  it("says what's missing or broken", () => {
+    expect(() => parseJsonResponse("no json", "array")).toThrow(
+      "No JSON array found in the response.",
+    );
+    expect(() => parseJsonResponse("{a:}", "object")).toThrow(
+      /^Response is not valid JSON/,
+    );
+  });
+});
+
+describe("validateItems", () => {
+  it("keeps valid items and records why the others failed", () => {
+    const result = validateItems([1, "x", 3], (item) =>
+      typeof item === "number" ? item * 2 : "not a number",
+    );
+    expect(result.valid).toEqual([2, 6]);
+    expect(result.invalid).toEqual([{ index: 1, reason: "not a number" }]);
+  });
+});
+
+describe("checkCitation", () => {
+  it("accepts complete citations of each type", () => {
+    expect(
+      checkCitation({ type: "document", page: 2, quote: "LM358" }),
+    ).toBeNull();
+    expect(
+      checkCitation({ type: "spreadsheet", location: "B4", reasoning: "" }),
+    ).toBeNull();
+    expect(
+      checkCitation({ type: "api", endpoint: "/p", reasoning: "" }),
+    ).toBeNull();
+  });
+
+  it("names the missing field", () => {
+    expect(checkCitation({ type: "document", page: 0, quote: "x" })).toBe(
+      "document citation has no page",
+    );
+    expect(checkCitation({ type: "spreadsheet", reasoning: "" })).toBe(
+      "spreadsheet citation has no location",
+    );
+  });
+
+  it("rejects non-objects and unknown types", () => {
+    expect(checkCitation("page 1")).toBe("citation is missing");
+    expect(checkCitation({ type: "telepathy" })).toBe(
+      'unknown citation type "telepathy"',
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import type { JsonSchema } from "./llm/types";
+
+// A response item that was dropped, with the reason it failed validation
+export type InvalidItem = {
+  index: number; // Position in the model's output array
+  rowId?: number; // Input row the item refers to, when it could be read
+  reason: string;
+};
+
+export type ValidationResult<T> = {
+  valid: T[];
+  invalid: InvalidItem[];
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Models occasionally wrap JSON in a fenced block or add prose around it,
+// even in JSON mode. Prefer a fenced block, then the outermost brackets.
+export function parseJsonResponse(text: string, root: "object" | "array") {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  const [open, close] = root === "object" ? ["{", "}"] : ["[", "]"];
+  const start = candidate.indexOf(open);
+  const end = candidate.lastIndexOf(close);
+  if (start === -1 || end === -1 || end < start) {
+    throw new Error(`No JSON ${root} found in the response.`);
+  }
+
+  try {
+    return JSON.parse(candidate.substring(start, end + 1)) as unknown;
+  } catch (e) {
+    throw new Error(
+      `Response is not valid JSON: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
+
+export function validateItems<T>(
+  items: unknown[],
+  validate: (item: unknown, index: number) => T | string,
+): ValidationResult<T> {
+  const result: ValidationResult<T> = { valid: [], invalid: [] };
+  items.forEach((item, index) => {
+    const outcome = validate(item, index);
+    if (typeof outcome === "string") {
+      result.invalid.push({ index, reason: outcome });
+    } else {
+      result.valid.push(outcome);
+    }
+  });
+  return result;
+}
+
+export const describeInvalidItems = (
+  invalid: InvalidItem[],
+  label: (item: InvalidItem) => string,
+  limit = 3,
+) => {
+  const shown = invalid
+    .slice(0, limit)
+    .map((item) => `${label(item)}: ${item.reason}`);
+  if (invalid.length > limit) shown.push(`+${invalid.length - limit} more`);
+  return shown.join("; ");
+};
+
+// --- Citations ---
+
+export const CITATION_SCHEMAS = {
+  document: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["document"] },
+      page: { anyOf: [{ type: "string" }, { type: "integer" }] },
+      quote: {
+        type: "string",
+        description: "Verbatim substring copied from the document",
+      },
+    },
+    required: ["type", "page", "quote"],
+  },
+  spreadsheet: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["spreadsheet"] },
+      location: { type: "string" },
+      reasoning: { type: "string" },
+    },
+    required: ["type", "location", "reasoning"],
+  },
+  api: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: ["api"] },
+      endpoint: { type: "string" },
+      reasoning: { type: "string" },
+      url: { type: "string" },
+    },
+    required: ["type", "endpoint", "reasoning"],
+  },
+} satisfies Record<string, JsonSchema>;
+
+// Returns a reason string when the citation does not match any union member
+export function checkCitation(citation: unknown): string | null {
+  if (!isRecord(citation)) return "citation is missing";
+
+  switch (citation.type) {
+    case "document":
+      if (!(
+        (typeof citation.page === "number" && citation.page > 0) ||
+        isNonEmptyString(citation.page)
+      )) {
+        return "document citation has no page";
+      }
+      if (!isNonEmptyString(citation.quote)) {
+        return "document citation has no quote";
+      }
+      return null;
+    case "spreadsheet":
+      if (!isNonEmptyString(citation.location)) {
+        return "spreadsheet citation has no location";
+      }
+      if (typeof citation.reasoning !== "string") {
+        return "spreadsheet citation has no reasoning";
+      }
+      return null;
+    case "api":
+      if (!isNonEmptyString(citation.endpoint)) {
+        return "api citation has no endpoint";
+      }
+      if (typeof citation.reasoning !== "string") {
+        return "api citation has no reasoning";
+      }
+      if (citation.url !== undefined && typeof citation.url !== "string") {
+        return "api citation url is not a string";
+      }
+      return null;
+    default:
+      return `unknown citation type "${String(citation.type)}"`;
+  }
+}
+
+// --- Prices ---
+
+// Accepts numbers and numeric strings ("12.55", "12,55", "1.234,50 €").
+// Returns null for anything that is not a recognisable amount.
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  let cleaned = value.replace(/[^\d.,-]/g, "");
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator (e.g. German "1.234,50")
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+export const NOT_AVAILABLE = "N/A";
+
+export const isNotAvailable = (value: unknown) =>
+  value == null ||
+  (typeof value === "string" &&
+    (value.trim() === "" || value.trim().toUpperCase() === NOT_AVAILABLE));
@@ -0,0 +1,82 @@
+import type { LlmUsage } from "./llm/types";
+
+export type AiOperation =
+  "extraction" | "batch-quote" | "single-quote" | "chat";
+
+// Tags a request so its cost shows up under the right line of the breakdown
+export type AiUsageTag = {
+  operation: AiOperation;
+  label?: string; // e.g. the reference file name for extractions
+};
+
+export type AiUsageRecord = AiUsageTag &
+  LlmUsage & {
+    id: string;
+    model: string;
+    durationMs: number;
+    timestamp: number;
+  };
+
+export type AiUsageSummary = {
+  operation: AiOperation;
+  label?: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  hasUnknownCost: boolean; // Some calls used a model missing from the price table
+  durationMs: number;
+};
+
+// Session-scoped (in memory) so a reload starts a fresh tally
+let records: AiUsageRecord[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export function recordAiUsage(record: Omit<AiUsageRecord, "id" | "timestamp">) {
+  records = [
+    ...records,
+    { ...record, id: crypto.randomUUID(), timestamp: Date.now() },
+  ];
+  emit();
+}
+
+export function clearAiUsage() {
+  records = [];
+  emit();
+}
+
+export const getAiUsageRecords = () => records;
+
+export function subscribeToAiUsage(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function summarizeAiUsage(list: AiUsageRecord[]): AiUsageSummary[] {
+  const groups = new Map<string, AiUsageSummary>();
+  list.forEach((r) => {
+    const key = `${r.operation}:${r.label ?? ""}`;
+    const group = groups.get(key) ?? {
+      operation: r.operation,
+      label: r.label,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      hasUnknownCost: false,
+      durationMs: 0,
+    };
+    group.calls++;
+    group.inputTokens += r.inputTokens;
+    group.outputTokens += r.outputTokens;
+    group.costUsd += r.costUsd ?? 0;
+    group.hasUnknownCost ||= r.costUsd === undefined;
+    group.durationMs += r.durationMs;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
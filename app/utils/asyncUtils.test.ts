@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "./asyncUtils";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("keeps at most `limit` calls in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(ms);
+      running--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it("returns results in input order with rejections captured", async () => {
+    const results = await mapWithConcurrency([3, 1, 2], 3, async (ms, i) => {
+      await delay(ms);
+      if (i === 1) throw new Error("second failed");
+      return ms * 10;
+    });
+    expect(results).toEqual([
+      { status: "fulfilled", value: 30 },
+      { status: "rejected", reason: new Error("second failed") },
+      { status: "fulfilled", value: 20 },
+    ]);
+  });
+
+  it("handles no items", async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+// Header patterns (English and German) for the BOM columns the quoting
+// features need. The first header matching a pattern wins.
+const PART_NUMBER_PATTERN =
+  /part\s*(no|nr|number|#)|\bmpn\b|\bsku\b|order\s*(code|no)|art(ikel)?[\s.-]*(no|nr|nummer)|bestell[\s.-]*(nr|nummer)|teilenummer/i;
+const MANUFACTURER_PATTERN =
+  /manufacturer|hersteller|\bmfr\b|\bmfg\b|brand|\bmarke\b/i;
+const QUANTITY_PATTERN =
+  /quantity|\bqty\b|menge|anzahl|stückzahl|\bstk\b|\bpcs\b/i;
+const EAN_PATTERN = /\bean\b|\bgtin\b|\bupc\b|barcode/i;
+// Our own "Order Qty" and "Packs" columns aren't the required quantity
+const ORDER_COLUMN_PATTERN = /order\s*qty|pack/i;
+
+export type BomColumns = {
+  partNumber: number; // -1 when the sheet has no such column
+  manufacturer: number;
+  quantity: number;
+  ean: number;
+};
+
+export const findHeader = (
+  headers: unknown[],
+  pattern: RegExp,
+  taken: number[] = [],
+) =>
+  headers.findIndex(
+    (h, i) => !taken.includes(i) && pattern.test(String(h ?? "")),
+  );
+
+export function detectBomColumns(headers: unknown[]): BomColumns {
+  const partNumber = findHeader(headers, PART_NUMBER_PATTERN);
+  // "Manufacturer Part No" is the part number, not the manufacturer
+  const manufacturer = findHeader(headers, MANUFACTURER_PATTERN, [partNumber]);
+  const quantity = headers.findIndex(
+    (h, i) =>
+      i !== partNumber &&
+      QUANTITY_PATTERN.test(String(h ?? "")) &&
+      !ORDER_COLUMN_PATTERN.test(String(h ?? "")),
+  );
+  const ean = findHeader(headers, EAN_PATTERN, [partNumber]);
+  return { partNumber, manufacturer, quantity, ean };
+}
+
+// "8806.000", "8806 000" and "8806-000" are the same part
+export const normalizePartNumber = (value: unknown) =>
+  String(value ?? "")
+    .normalize("NFKD")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { quoteMatchesPage, verifyQuote } from "./citationUtils";
+
+// Page text the way it's compared: lower case, without whitespace
+const page = (text: string) => text.toLowerCase().replace(/\s+/g, "");
+
+describe("quoteMatchesPage", () => {
+  it("finds a quote regardless of whitespace and case", () => {
+    expect(
+      quoteMatchesPage("Resistor 10k  0603", page("1 RESISTOR 10K 0603 5%")),
+    ).toBe(true);
+  });
+
+  it("joins words hyphenated across lines", () => {
+    expect(
+      quoteMatchesPage("Ceramic capa- citor", page("Ceramic capacitor 100nF")),
+    ).toBe(true);
+  });
+
+  it("accepts table rows whose cells came out reordered", () => {
+    const text = page(
+      "R5 | 0603 | Yageo | RC0603FR-0710KL | Thick film resistor",
+    );
+    expect(
+      quoteMatchesPage("RC0603FR-0710KL Yageo thick film resistor", text),
+    ).toBe(true);
+  });
+
+  it("rejects quotes whose part number is missing", () => {
+    const text = page("RC0603FR-0710KL Yageo thick film resistor");
+    expect(
+      quoteMatchesPage("RC0603FR-0747KL Yageo thick film resistor", text),
+    ).toBe(false);
+  });
+
+  it("rejects words scattered across the page", () => {
+    const text = page(
+      `RC0603FR-0710KL ${"filler text ".repeat(40)} Yageo thick film resistor`,
+    );
+    expect(
+      quoteMatchesPage("RC0603FR-0710KL Yageo thick film resistor", text),
+    ).toBe(false);
+  });
+
+  it("never matches an empty page", () => {
+    expect(quoteMatchesPage("anything", "")).toBe(false);
+  });
+});
+
+describe("verifyQuote", () => {
+  const pages = [page("Cover sheet"), page("Part list: LM358 dual op amp")];
+
+  it("verifies a quote on the cited page", () => {
+    expect(verifyQuote("LM358 dual op amp", 2, pages).status).toBe("verified");
+  });
+
+  it("reports the page a quote was actually found on", () => {
+    expect(verifyQuote("LM358 dual op amp", 1, pages)).toMatchObject({
+      status: "page-mismatch",
+      foundOnPage: 2,
+    });
+  });
+
+  it("can't verify without a text layer", () => {
+    expect(verifyQuote("LM358", 1, ["", ""]).status).toBe("unverified");
+  });
+});
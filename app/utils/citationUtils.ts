@@ -0,0 +1,176 @@
+import type { ExtractionCitation } from "./aiExtractionUtils";
+import { getPdfPageTexts, isPdfFile } from "./pdfUtils";
+
+export type CitationStatus = "verified" | "unverified" | "page-mismatch";
+
+export type CitationVerification = {
+  status: CitationStatus;
+  foundOnPage?: number; // Where the quote really is, for page mismatches
+  detail?: string;
+};
+
+export const CITATION_STATUS_LABELS: Record<CitationStatus, string> = {
+  verified: "Quote verified",
+  unverified: "Quote not found",
+  "page-mismatch": "Quote on a different page",
+};
+
+// Collapses the differences between a PDF text layer and a model's transcription
+// of it: unicode variants, soft hyphens, words hyphenated across a line break
+// and all whitespace (text items are often split mid-word or mid-number).
+const compact = (text: string) =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\u00ad/g, "")
+    .replace(/[\u2010-\u2015]/g, "-")
+    .replace(/[\u2018-\u201b`\u00b4]/g, "'")
+    .replace(/[\u201c-\u201f]/g, '"')
+    .replace(/(\w)-\s+(\w)/g, "$1$2")
+    .replace(/\s+/g, "");
+
+const tokenize = (text: string) =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}.,/-]+/u)
+    .map((t) => t.replace(/^[.,/-]+|[.,/-]+$/g, ""))
+    .filter(Boolean);
+
+const MIN_WORD_OVERLAP = 0.8;
+// "1", "10" or "R" are on every BOM page, so shorter tokens prove nothing
+const MIN_TOKEN_LENGTH = 3;
+// How far around its longest token the rest of a quote may be scattered,
+// relative to the quote's own length
+const REGION_SLACK = 1.5;
+
+// Table rows often come out of the text layer with cells reordered or split,
+// so a quote also counts when, in one region of the page about the size of
+// the quote, every token with a digit in it (part numbers, prices) and most
+// of the remaining words appear.
+export function quoteMatchesPage(quote: string, compactPage: string) {
+  if (!compactPage) return false;
+  const compactQuote = compact(quote);
+  if (compactPage.includes(compactQuote)) return true;
+
+  const tokens = tokenize(quote)
+    .map(compact)
+    .filter((t) => t.length >= MIN_TOKEN_LENGTH);
+  if (tokens.length < 2) return false;
+  const identifiers = tokens.filter((t) => /\d/.test(t));
+  const words = tokens.filter((t) => !/\d/.test(t));
+  const anchor = (identifiers.length > 0 ? identifiers : words).reduce(
+    (longest, t) => (t.length > longest.length ? t : longest),
+  );
+  const reach = Math.ceil(compactQuote.length * REGION_SLACK);
+
+  for (
+    let at = compactPage.indexOf(anchor);
+    at !== -1;
+    at = compactPage.indexOf(anchor, at + 1)
+  ) {
+    const region = compactPage.slice(
+      Math.max(0, at - reach),
+      at + anchor.length + reach,
+    );
+    if (!identifiers.every((t) => region.includes(t))) continue;
+    const found = words.filter((t) => region.includes(t)).length;
+    if (words.length === 0 || found / words.length >= MIN_WORD_OVERLAP) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function verifyQuote(
+  quote: string,
+  page: number,
+  compactPages: string[],
+): CitationVerification {
+  if (!quote.trim()) {
+    return { status: "unverified", detail: "The model gave no quote." };
+  }
+  if (compactPages.every((text) => !text)) {
+    return {
+      status: "unverified",
+      detail: "The PDF has no text layer to check against (scanned?).",
+    };
+  }
+  if (quoteMatchesPage(quote, compactPages[page - 1] ?? "")) {
+    return { status: "verified" };
+  }
+  const actualIndex = compactPages.findIndex((text) =>
+    quoteMatchesPage(quote, text),
+  );
+  if (actualIndex !== -1) {
+    return {
+      status: "page-mismatch",
+      foundOnPage: actualIndex + 1,
+      detail: `Cited page ${page}, but the quote is on page ${actualIndex + 1}.`,
+    };
+  }
+  return {
+    status: "unverified",
+    detail: "The quote does not appear anywhere in the document.",
+  };
+}
+
+// Checks each document citation against the file's own text layer. Entries are
+// undefined where there is nothing to check (non-PDF files, other citation types).
+export async function verifyDocumentCitations(
+  file: File,
+  citations: ExtractionCitation[],
+): Promise<(CitationVerification | undefined)[]> {
+  if (!isPdfFile(file)) return citations.map(() => undefined);
+
+  const compactPages = (await getPdfPageTexts(file)).map(compact);
+  return citations.map((citation) =>
+    citation.type === "document"
+      ? verifyQuote(citation.quote, Number(citation.page), compactPages)
+      : undefined,
+  );
+}
+
+// Picks the text items on a page that make up the quote, for highlighting.
+// Falls back to the items holding the quote's identifiers (part numbers,
+// prices) when the text layer has the cells in a different order.
+export function findQuoteItems(quote: string, items: string[]): number[] {
+  const compactQuote = compact(quote);
+  if (!compactQuote) return [];
+
+  let joined = "";
+  const starts = items.map((text) => {
+    const start = joined.length;
+    // A trailing hyphen is usually a word broken across lines
+    joined += compact(text).replace(/-$/, "");
+    return start;
+  });
+
+  const matchStart = joined.indexOf(compactQuote);
+  if (matchStart !== -1) {
+    const matchEnd = matchStart + compactQuote.length;
+    return items
+      .map((_, i) => i)
+      .filter((i) => {
+        const end = i + 1 < starts.length ? starts[i + 1] : joined.length;
+        return end > starts[i] && starts[i] < matchEnd && end > matchStart;
+      });
+  }
+
+  const identifiers = tokenize(quote)
+    .filter((t) => /\d/.test(t))
+    .map(compact);
+  return items
+    .map((text, i) => ({ text: compact(text), i }))
+    .filter(
+      ({ text }) =>
+        text &&
+        identifiers.some(
+          (t) =>
+            text.includes(t) ||
+            // Identifiers split over several items, e.g. "BC547" + "B"
+            (text.length >= 3 && /\d/.test(text) && t.includes(text)),
+        ),
+    )
+    .map(({ i }) => i);
+}
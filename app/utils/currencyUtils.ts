@@ -0,0 +1,113 @@
+import { isNotAvailable, parsePrice } from "./aiSchemaUtils";
+
+// A price with its currency (ISO 4217). Quote cells hold these instead of
+// text so they can be summed, compared and converted.
+export type Money = {
+  amount: number;
+  currency: string;
+};
+
+// Units of each currency per 1 EUR, maintained by the user
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  EUR: 1,
+  CHF: 0.94,
+  GBP: 0.86,
+  USD: 1.09,
+};
+
+export const isMoney = (value: unknown): value is Money =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Money).amount === "number" &&
+  typeof (value as Money).currency === "string";
+
+const round = (value: number, decimals: number) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export const money = (amount: number, currency: string, decimals = 2) => ({
+  amount: round(amount, decimals),
+  currency,
+});
+
+// null when either currency has no rate
+export function convertMoney(
+  value: Money,
+  to: string,
+  rates: ExchangeRates,
+): Money | null {
+  if (value.currency === to) return value;
+  const from = rates[value.currency];
+  const target = rates[to];
+  if (!(from > 0) || !(target > 0)) return null;
+  return money((value.amount / from) * target, to, 4);
+}
+
+const SYMBOLS: Record<string, string> = {
+  "€": "EUR",
+  "£": "GBP",
+  $: "USD",
+  "Fr.": "CHF",
+};
+
+// "12,55 €", "CHF 12.55" or "12.55" (in `fallbackCurrency`); null when the
+// text has no amount
+export function parseMoney(
+  value: unknown,
+  fallbackCurrency: string,
+): Money | null {
+  if (isMoney(value)) return value;
+  if (isNotAvailable(value)) return null;
+  const amount = parsePrice(value);
+  if (amount === null) return null;
+  const text = String(value);
+  const code = text.match(/\b[A-Z]{3}\b/)?.[0];
+  const symbol = Object.keys(SYMBOLS).find((s) => text.includes(s));
+  return {
+    amount,
+    currency: code ?? (symbol ? SYMBOLS[symbol] : fallbackCurrency),
+  };
+}
+
+export function formatMoney({ amount, currency }: Money): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    // Not an ISO code Intl knows
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// The plain text of a cell, e.g. for editing: money as "12.55 EUR"
+export const cellText = (value: unknown) =>
+  isMoney(value) ? `${value.amount} ${value.currency}` : String(value ?? "");
+
+// Converts every money cell it can to `currency`; the rest keep their own
+export const convertMoneyCells = (
+  rows: unknown[][],
+  currency: string,
+  rates: ExchangeRates,
+): unknown[][] =>
+  rows.map((row) =>
+    row.map((cell) =>
+      isMoney(cell) ? (convertMoney(cell, currency, rates) ?? cell) : cell,
+    ),
+  );
+
+const EXCEL_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  GBP: "£",
+  USD: "$",
+};
+
+// Excel number format showing the currency, e.g. `#,##0.00 "€"`
+export function currencyNumberFormat(currency: string): string {
+  const symbol = EXCEL_SYMBOLS[currency];
+  if (currency === "EUR") return `#,##0.00 "${symbol}"`;
+  if (symbol) return `"${symbol}"#,##0.00`;
+  return `"${currency.replace(/"/g, "")}" #,##0.00`;
+}
@@ -0,0 +1,132 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { money } from "./currencyUtils";
+import {
+  parseWorkbook,
+  patchWorkbook,
+  type SourceWorkbook,
+  type WorkbookSheet,
+} from "./excelUtils";
+import { loadStyledXlsx, readCellStyles } from "./xlsxStyleUtils";
+
+const HEADER_STYLE = {
+  font: { bold: true },
+  fill: { patternType: "solid", fgColor: { rgb: "DDEEFF" } },
+};
+
+// A BOM below a blank (merged) row, so grid rows aren't worksheet rows
+async function sourceWorkbook(): Promise<SourceWorkbook> {
+  const StyledXLSX = await loadStyledXlsx();
+  const worksheet = StyledXLSX.utils.aoa_to_sheet([
+    [],
+    ["Part", "Qty"],
+    ["R1", 10],
+    ["C1", 4],
+  ]);
+  worksheet["A2"].s = structuredClone(HEADER_STYLE);
+  worksheet["B2"].s = structuredClone(HEADER_STYLE);
+  worksheet["!merges"] = [XLSX.utils.decode_range("A1:B1")];
+  worksheet["!cols"] = [{ wch: 20 }, { wch: 8 }];
+  const workbook = StyledXLSX.utils.book_new();
+  StyledXLSX.utils.book_append_sheet(workbook, worksheet, "BOM");
+  const data = StyledXLSX.write(workbook, { type: "array", bookType: "xlsx" });
+  return parseWorkbook(new File([data], "bom.xlsx"));
+}
+
+const edit = (rows: unknown[][]): WorkbookSheet[] => [{ name: "BOM", rows }];
+
+describe("patchWorkbook", () => {
+  it("writes changed cells in place and keeps the layout", async () => {
+    const source = await sourceWorkbook();
+    const workbook = patchWorkbook(
+      source,
+      edit([
+        ["Part", "Qty", "Price"],
+        ["R1", "12", money(0.1, "EUR")],
+        ["C1", "4", ""],
+      ]),
+    );
+    const sheet = workbook!.Sheets.BOM;
+
+    expect(sheet.B3).toMatchObject({ t: "n", v: 12 });
+    expect(sheet.C2).toMatchObject({ t: "s", v: "Price" });
+    expect(sheet.C3).toMatchObject({ t: "n", v: 0.1 });
+    expect(sheet.C4).toBeUndefined();
+    expect(sheet["!ref"]).toBe("A2:C4");
+    expect(sheet["!merges"]).toEqual([XLSX.utils.decode_range("A1:B1")]);
+    expect(sheet.A2.s).toMatchObject(HEADER_STYLE);
+    // The source is left alone
+    expect(source.workbook.Sheets.BOM.B3.v).toBe(10);
+  });
+
+  it("writes the styles back to the file", async () => {
+    const source = await sourceWorkbook();
+    const workbook = patchWorkbook(
+      source,
+      edit([
+        ["Part", "Qty"],
+        ["R1", "10"],
+        ["C1", "4"],
+      ]),
+      {
+        BOM: {
+          "1-1": { fill: { patternType: "solid", fgColor: { rgb: "FFFF00" } } },
+        },
+      },
+    );
+    const StyledXLSX = await loadStyledXlsx();
+    const data: ArrayBuffer = StyledXLSX.write(workbook!, {
+      type: "array",
+      bookType: "xlsx",
+    });
+    const styles = readCellStyles(data).BOM;
+
+    expect(styles.A2).toMatchObject(HEADER_STYLE);
+    expect(styles.B3.fill?.fgColor).toEqual({ rgb: "FFFF00" });
+  });
+
+  it("appends new rows below the used range", async () => {
+    const source = await sourceWorkbook();
+    const workbook = patchWorkbook(
+      source,
+      edit([
+        ["Part", "Qty"],
+        ["R1", "10"],
+        ["C1", "4"],
+        ["U1", "1"],
+      ]),
+    );
+    expect(workbook!.Sheets.BOM.A5).toMatchObject({ v: "U1" });
+  });
+
+  it("adds sheets that weren't in the file", async () => {
+    const source = await sourceWorkbook();
+    const workbook = patchWorkbook(source, [
+      { name: "Sources", rows: [["Row"], ["1"]] },
+    ]);
+    expect(workbook!.SheetNames).toEqual(["BOM", "Sources"]);
+  });
+
+  it("gives up when rows were deleted or reordered", async () => {
+    const source = await sourceWorkbook();
+    expect(
+      patchWorkbook(
+        source,
+        edit([
+          ["Part", "Qty"],
+          ["C1", "4"],
+        ]),
+      ),
+    ).toBeNull();
+    expect(
+      patchWorkbook(
+        source,
+        edit([
+          ["Part", "Qty"],
+          ["C1", "4"],
+          ["R1", "10"],
+        ]),
+      ),
+    ).toBeNull();
+  });
+});
@@ -1,44 +1,59 @@
 import type { BookType } from "xlsx";
 import * as XLSX from "xlsx";
+import { currencyNumberFormat, isMoney, type Money } from "./currencyUtils";
+import {
+  applyCellStyles,
+  loadStyledXlsx,
+  readCellStyles,
+  toCellStyle,
+  type CellStyle,
+} from "./xlsxStyleUtils";
 
 function isRowEmpty(row: unknown[]): boolean {
   return row.every((cell) => cell == null || cell === "");
 }
 
-function isColumnEmpty(data: unknown[][], colIndex: number): boolean {
-  return data.every((row) => row[colIndex] == null || row[colIndex] === "");
-}
-
-function removeColumn(data: unknown[][], colIndex: number): unknown[][] {
-  return data.map((row) => {
-    const newRow = [...row];
-    newRow.splice(colIndex, 1);
-    return newRow;
-  });
-}
+// A cleaned-up sheet that still knows where each value came from, so rows
+// imported from it can cite exact cells
+export type ParsedSheet = {
+  sheetName: string;
+  rows: unknown[][];
+  rowNumbers: number[]; // 1-based worksheet row of each entry in `rows`
+  columnIndices: number[]; // 0-based worksheet column of each column in `rows`
+};
 
-export function cleanupData(data: (unknown[] | undefined | null)[]) {
+function cleanupWithPositions(
+  data: (unknown[] | undefined | null)[],
+  firstRow = 0,
+  firstColumn = 0,
+) {
   // 1. Remove empty rows first
-  let cleanData = data
-    .filter((row) => row != null)
-    .filter((row) => !isRowEmpty(row));
+  const kept = data
+    .map((row, i) => ({ row, rowIndex: firstRow + i }))
+    .filter(
+      (entry): entry is { row: unknown[]; rowIndex: number } =>
+        entry.row != null && !isRowEmpty(entry.row),
+    );
 
-  if (cleanData.length === 0) return [];
+  // 2. Remove empty columns
+  const rowLength = kept[0]?.row.length || 0;
+  const columns = Array.from({ length: rowLength }, (_, i) => i).filter((i) =>
+    kept.some(({ row }) => row[i] != null && row[i] !== ""),
+  );
 
-  // 2. Remove empty columns (Iterating BACKWARDS)
-  const rowLength = cleanData[0]?.length || 0;
-  for (let i = rowLength - 1; i >= 0; i--) {
-    if (isColumnEmpty(cleanData, i)) {
-      cleanData = removeColumn(cleanData, i);
-    }
-  }
+  return {
+    rows: kept.map(({ row }) => columns.map((i) => row[i] ?? "")),
+    rowIndices: kept.map(({ rowIndex }) => rowIndex),
+    columnIndices: columns.map((i) => firstColumn + i),
+  };
+}
 
-  return cleanData;
+export function cleanupData(data: (unknown[] | undefined | null)[]) {
+  return cleanupWithPositions(data).rows;
 }
 
-export async function parseFile(file: File): Promise<unknown[][]> {
+async function readWorkbook(file: File, keepStyles = false) {
   const arrayBuffer = await file.arrayBuffer();
-  let workbook;
 
   // FIX: Check for ALL text-based formats that might have encoding issues
   const isTextFormat = file.name.match(/\.(csv|txt|html|htm)$/i);
@@ -47,24 +62,159 @@ export async function parseFile(file: File): Promise<unknown[][]> {
     // Force UTF-8 decoding for text formats
     const textDecoder = new TextDecoder("utf-8");
     const textData = textDecoder.decode(arrayBuffer);
-    workbook = XLSX.read(textData, { type: "string" });
-  } else {
-    // For binary files (xlsx, xls, ods, numbers), read the buffer directly
-    workbook = XLSX.read(arrayBuffer);
+    return XLSX.read(textData, { type: "string" });
   }
+  // For binary files (xlsx, xls, ods, numbers), read the buffer directly.
+  // Keep widths, number formats and cell styles so a patched export can
+  // write them back.
+  const workbook = XLSX.read(arrayBuffer, { cellStyles: true, cellNF: true });
+  if (keepStyles) applyCellStyles(workbook, readCellStyles(arrayBuffer));
+  return workbook;
+}
 
-  const worksheetName = workbook.SheetNames[0];
-  const worksheet = workbook.Sheets[worksheetName];
+function toParsedSheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+): ParsedSheet {
+  const worksheet = workbook.Sheets[sheetName];
+  const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
 
   const jsonData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
     header: 1,
     raw: false,
     defval: "",
+    blankrows: true,
   });
 
-  return cleanupData(jsonData);
+  const { rows, rowIndices, columnIndices } = cleanupWithPositions(
+    jsonData,
+    range.s.r,
+    range.s.c,
+  );
+  return {
+    sheetName,
+    rows,
+    rowNumbers: rowIndices.map((r) => r + 1),
+    columnIndices,
+  };
+}
+
+// The workbook as read, kept so exports can patch it instead of rebuilding it
+export type SourceWorkbook = {
+  workbook: XLSX.WorkBook;
+  sheets: ParsedSheet[]; // Every sheet in order, including empty ones
+};
+
+export async function parseWorkbook(file: File): Promise<SourceWorkbook> {
+  const workbook = await readWorkbook(file, true);
+  return {
+    workbook,
+    sheets: workbook.SheetNames.map((name) => toParsedSheet(workbook, name)),
+  };
 }
 
+export async function parseSheet(file: File): Promise<ParsedSheet> {
+  const workbook = await readWorkbook(file);
+  return toParsedSheet(workbook, workbook.SheetNames[0]);
+}
+
+export async function parseFile(file: File): Promise<unknown[][]> {
+  return (await parseSheet(file)).rows;
+}
+
+export type WorkbookSheet = { name: string; rows: unknown[][] };
+
+export const SHEET_COLUMN = "Sheet";
+
+// Stacks several sheets into one grid. Headers are merged by name and a
+// leading "Sheet" column records which sheet each row came from.
+export function combineSheets(sheets: WorkbookSheet[]): unknown[][] {
+  const headers: string[] = [];
+  sheets.forEach(({ rows }) =>
+    (rows[0] ?? []).forEach((h) => {
+      const header = String(h ?? "");
+      if (!headers.includes(header)) headers.push(header);
+    }),
+  );
+
+  const body = sheets.flatMap(({ name, rows }) => {
+    const [sheetHeaders = [], ...sheetBody] = rows;
+    const positions = headers.map((h) =>
+      sheetHeaders.findIndex((sh) => String(sh ?? "") === h),
+    );
+    return sheetBody.map((row) => [
+      name,
+      ...positions.map((i) => (i === -1 ? "" : (row[i] ?? ""))),
+    ]);
+  });
+
+  return [[SHEET_COLUMN, ...headers], ...body];
+}
+
+// Reverses combineSheets. Rows whose "Sheet" cell names no known sheet
+// (e.g. rows added after combining) go to the first sheet.
+export function splitCombinedSheets(
+  data: unknown[][],
+  sheetNames: string[],
+): WorkbookSheet[] {
+  const [header = [], ...body] = data;
+  const sheetCol = header.findIndex((h) => String(h ?? "") === SHEET_COLUMN);
+  const withoutSheetCol = (row: unknown[]) =>
+    sheetCol === -1 ? row : row.filter((_, i) => i !== sheetCol);
+
+  const sheets = sheetNames.map((name) => ({
+    name,
+    rows: [withoutSheetCol(header)],
+  }));
+  body.forEach((row) => {
+    const name = sheetCol === -1 ? "" : String(row[sheetCol] ?? "");
+    const target = sheets.find((s) => s.name === name) ?? sheets[0];
+    target.rows.push(withoutSheetCol(row));
+  });
+  return sheets;
+}
+
+// Where each grid cell goes when the grid is split back into its sheets: the
+// sheet, the row among that sheet's rows (0 is its header) and the column.
+// The "Sheet" column itself goes nowhere.
+export function locateGridCells(data: unknown[][], sheetNames: string[]) {
+  const [header = []] = data;
+  const sheetCol =
+    sheetNames.length > 1
+      ? header.findIndex((h) => String(h ?? "") === SHEET_COLUMN)
+      : -1;
+  const counts: Record<string, number> = {};
+  const rows = data.map((row, i) => {
+    const name = sheetCol === -1 ? "" : String(row[sheetCol] ?? "");
+    const sheet = sheetNames.includes(name)
+      ? name
+      : (sheetNames[0] ?? "Sheet1");
+    if (i === 0) return { sheet, row: 0 };
+    counts[sheet] = (counts[sheet] ?? 0) + 1;
+    return { sheet, row: counts[sheet] };
+  });
+  const column = (c: number) =>
+    sheetCol === -1 || c < sheetCol ? c : c === sheetCol ? null : c - 1;
+  return { rows, column };
+}
+
+export const columnLetter = (index: number) => XLSX.utils.encode_col(index);
+
+// e.g. cellRange("Price List", 4, 0, 3) -> "'Price List'!A5:D5"
+export const cellRange = (
+  sheetName: string,
+  rowIndex: number,
+  firstColumn: number,
+  lastColumn: number,
+) => {
+  const start = XLSX.utils.encode_cell({ r: rowIndex, c: firstColumn });
+  const end = XLSX.utils.encode_cell({ r: rowIndex, c: lastColumn });
+  const sheet = /^[A-Za-z_][\w.]*$/.test(sheetName)
+    ? sheetName
+    : `'${sheetName.replace(/'/g, "''")}'`;
+  return `${sheet}!${start === end ? start : `${start}:${end}`}`;
+};
+
 export const SUPPORTED_EXPORT_TYPES: BookType[] = [
   "xlsx",
   "xls",
@@ -87,16 +237,276 @@ export const isOfTypeSupportedExportType = (
   );
 };
 
+// Money is written as a number formatted in its currency, not as text
+const moneyCell = ({ amount, currency }: Money): XLSX.CellObject => ({
+  t: "n",
+  v: amount,
+  z: currencyNumberFormat(currency),
+});
+
+export const toSheetRows = (rows: unknown[][]): unknown[][] =>
+  rows.map((row) =>
+    row.map((cell) => (isMoney(cell) ? moneyCell(cell) : cell)),
+  );
+
+// Sheet name -> "row-col" among that sheet's rows -> style
+export type SheetCellStyles = Record<string, Record<string, CellStyle>>;
+
+// Adds `style` over whatever style the cell already has
+function styleCell(
+  worksheet: XLSX.WorkSheet,
+  rowIndex: number,
+  columnIndex: number,
+  style: CellStyle,
+) {
+  const address = XLSX.utils.encode_cell({ r: rowIndex, c: columnIndex });
+  const cell: XLSX.CellObject = worksheet[address] ?? { t: "z" };
+  cell.s = { ...toCellStyle(cell.s), ...style };
+  worksheet[address] = cell;
+}
+
+function rowsToSheet(
+  rows: unknown[][],
+  styles: Record<string, CellStyle> = {},
+) {
+  const worksheet = XLSX.utils.aoa_to_sheet(toSheetRows(rows));
+  Object.entries(styles).forEach(([key, style]) => {
+    const [r, c] = key.split("-").map(Number);
+    styleCell(worksheet, r, c, style);
+  });
+  return worksheet;
+}
+
+// A new workbook with one sheet per entry
+export function sheetsToWorkbook(
+  sheets: WorkbookSheet[],
+  cellStyles: SheetCellStyles = {},
+): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, rows }) =>
+    XLSX.utils.book_append_sheet(
+      workbook,
+      rowsToSheet(rows, cellStyles[name]),
+      name,
+    ),
+  );
+  return workbook;
+}
+
+// The regular xlsx build writes no cell styles, so styled workbooks are
+// written with the styling fork
+export async function writeStyledWorkbook(
+  workbook: XLSX.WorkBook,
+  fileName: string,
+): Promise<void> {
+  Object.values(workbook.Sheets).forEach((worksheet) =>
+    Object.keys(worksheet).forEach((address) => {
+      if (address.startsWith("!")) return;
+      const cell = worksheet[address] as XLSX.CellObject;
+      cell.s = toCellStyle(cell.s);
+    }),
+  );
+  const StyledXLSX = await loadStyledXlsx();
+  StyledXLSX.writeFile(workbook, fileName, { sheetStubs: true });
+}
+
+// Formats that hold a single sheet
+const SINGLE_SHEET_EXPORT_TYPES: SupportedExportType[] = ["csv", "txt", "html"];
+
+// Writes `data` as "Sheet1", or the whole workbook when `sheets` is given and
+// the format supports several sheets (CSV etc. only get the visible grid)
 export const saveToExcel = (
   data: unknown[][],
   fileName: string,
   format: SupportedExportType,
+  sheets?: WorkbookSheet[],
 ): void => {
-  const worksheet = XLSX.utils.aoa_to_sheet(data);
-  const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
+  const workbook = sheetsToWorkbook(
+    sheets && sheets.length > 0 && !SINGLE_SHEET_EXPORT_TYPES.includes(format)
+      ? sheets
+      : [{ name: "Sheet1", rows: data }],
+  );
 
   const nameWithoutExtension = fileName.replace(/\.(xlsx|csv|xls)$/, "");
   const finalFileName = `${nameWithoutExtension}.${format}`;
   XLSX.writeFile(workbook, finalFileName);
 };
+
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+// Overwrites one cell's value but keeps its number format and style
+function writeCell(
+  worksheet: XLSX.WorkSheet,
+  rowIndex: number,
+  columnIndex: number,
+  value: unknown,
+) {
+  const address = XLSX.utils.encode_cell({ r: rowIndex, c: columnIndex });
+  const previous = worksheet[address] as XLSX.CellObject | undefined;
+  if (isMoney(value)) {
+    worksheet[address] = { ...moneyCell(value), s: previous?.s };
+    return;
+  }
+  const text = String(value ?? "");
+  const isNumber =
+    typeof value === "number" ||
+    (NUMERIC_TEXT.test(text) && (!previous || previous.t === "n"));
+
+  const cell: XLSX.CellObject = isNumber
+    ? { t: "n", v: Number(text) }
+    : { t: "s", v: text };
+  if (previous?.z) cell.z = previous.z;
+  if (previous?.s) cell.s = previous.s;
+  worksheet[address] = cell;
+}
+
+// For each edited column, the parsed column it came from (null = new).
+// Headers are matched by name first, since combined sheets reorder columns;
+// renamed headers fall back to their position.
+function matchColumns(original: unknown[][], edited: unknown[][]) {
+  const originalHeaders = (original[0] ?? []).map((h) => String(h ?? ""));
+  const editedHeaders = (edited[0] ?? []).map((h) => String(h ?? ""));
+  const used = new Set<number>();
+
+  const origins: (number | null)[] = editedHeaders.map((h) => {
+    const i = originalHeaders.indexOf(h);
+    if (i === -1 || used.has(i)) return null;
+    used.add(i);
+    return i;
+  });
+  return origins.map((origin, j) => {
+    if (origin !== null || j >= originalHeaders.length || used.has(j)) {
+      return origin;
+    }
+    used.add(j);
+    return j;
+  });
+}
+
+// An edited row still sits on its original when at least half of the
+// original's filled cells are unchanged
+function keepsRow(
+  original: unknown[],
+  edited: unknown[],
+  origins: (number | null)[],
+) {
+  const filled = original.filter((value) => String(value ?? "") !== "").length;
+  const unchanged = origins.filter(
+    (origin, j) =>
+      origin !== null &&
+      String(original[origin] ?? "") !== "" &&
+      String(edited[j] ?? "") === String(original[origin] ?? ""),
+  ).length;
+  return unchanged * 2 >= filled;
+}
+
+// Cells are patched in place, so every original row must still be there,
+// first and in order. Deleting or reordering rows (e.g. from chat) breaks
+// that.
+const keepsRowOrder = (
+  original: unknown[][],
+  edited: unknown[][],
+  origins: (number | null)[],
+) =>
+  edited.length >= original.length &&
+  original.every((row, i) => keepsRow(row, edited[i], origins));
+
+// The 1-based worksheet row an edited sheet's row is written to: its
+// original row when the workbook is patched, else below the used range
+export function writtenRowNumber(
+  source: SourceWorkbook | null,
+  sheetName: string,
+  row: number,
+) {
+  const parsed = source?.sheets.find((s) => s.sheetName === sheetName);
+  const worksheet = source?.workbook.Sheets[sheetName];
+  if (!parsed || !worksheet) return row + 1;
+  if (row < parsed.rows.length) return parsed.rowNumbers[row];
+  const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+  return range.e.r + 2 + (row - parsed.rows.length);
+}
+
+// Writes the edited sheets into a copy of the original workbook, touching
+// only cells whose value changed plus the rows and columns added after
+// them. Widths, merges, formulas, cell styles and untouched cells are
+// kept; `cellStyles` are added on top. Returns null when rows were deleted
+// or reordered, since their cells can't be patched in place.
+export function patchWorkbook(
+  source: SourceWorkbook,
+  editedSheets: WorkbookSheet[],
+  cellStyles: SheetCellStyles = {},
+): XLSX.WorkBook | null {
+  const workbook = structuredClone(source.workbook);
+
+  const patched = editedSheets.every(({ name, rows }) => {
+    const parsed = source.sheets.find((s) => s.sheetName === name);
+    const worksheet = workbook.Sheets[name];
+    if (!parsed || !worksheet) {
+      XLSX.utils.book_append_sheet(
+        workbook,
+        rowsToSheet(rows, cellStyles[name]),
+        name,
+      );
+      return true;
+    }
+
+    const original = parsed.rows;
+    const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+    const origins = matchColumns(original, rows);
+    if (!keepsRowOrder(original, rows, origins)) return false;
+
+    // New columns go right of the used range, new rows below it. A new column
+    // with nothing below its header (e.g. from combining sheets) is skipped.
+    let nextColumn = range.e.c + 1;
+    const sheetColumns = origins.map((origin, j) => {
+      if (origin !== null) return parsed.columnIndices[origin];
+      const hasValues = rows
+        .slice(1)
+        .some((row) => String(row[j] ?? "") !== "");
+      return hasValues ? nextColumn++ : null;
+    });
+    const sheetRow = (i: number) => writtenRowNumber(source, name, i) - 1;
+
+    rows.forEach((row, i) => {
+      row.forEach((value, j) => {
+        const column = sheetColumns[j];
+        if (column === null) return;
+        const origin = origins[j];
+        const before =
+          i < original.length && origin !== null
+            ? String(original[i][origin] ?? "")
+            : "";
+        if (String(value ?? "") === before) return;
+        writeCell(worksheet, sheetRow(i), column, value);
+      });
+    });
+    Object.entries(cellStyles[name] ?? {}).forEach(([key, style]) => {
+      const [i, j] = key.split("-").map(Number);
+      const column = sheetColumns[j];
+      if (column == null) return;
+      styleCell(worksheet, sheetRow(i), column, style);
+    });
+
+    range.e.c = Math.max(range.e.c, nextColumn - 1);
+    range.e.r = Math.max(range.e.r, sheetRow(rows.length - 1));
+    worksheet["!ref"] = XLSX.utils.encode_range(range);
+    return true;
+  });
+
+  return patched ? workbook : null;
+}
+
+// Resolves false, writing nothing, when the rows no longer line up with
+// the original's
+export async function savePatchedWorkbook(
+  source: SourceWorkbook,
+  editedSheets: WorkbookSheet[],
+  fileName: string,
+  format: SupportedExportType,
+): Promise<boolean> {
+  const workbook = patchWorkbook(source, editedSheets);
+  if (!workbook) return false;
+  const nameWithoutExtension = fileName.replace(/\.(xlsx|csv|xls)$/, "");
+  await writeStyledWorkbook(workbook, `${nameWithoutExtension}.${format}`);
+  return true;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { checkUrlGrounding, sourcesForRow } from "./groundingUtils";
+import type { LlmGrounding } from "./llm/types";
+
+const REDIRECT =
+  "https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc";
+
+const grounding: LlmGrounding = {
+  searchQueries: ["LM358 price"],
+  sources: [
+    { title: "shop-a.example", uri: "https://shop-a.example/p/lm358" },
+    {
+      title: "shop-b.example",
+      uri: REDIRECT,
+      resolvedUri: "https://www.shop-b.example/item/123/",
+    },
+    { title: "shop-c.example", uri: `${REDIRECT}2` },
+  ],
+  supports: [
+    { text: '"partNumber":"LM358"', sourceIndices: [0] },
+    { text: '"partNumber":"NE555"', sourceIndices: [1, 2] },
+  ],
+};
+
+describe("checkUrlGrounding", () => {
+  it("grounds the exact page", () => {
+    expect(checkUrlGrounding("https://shop-a.example/p/lm358", grounding)).toBe(
+      "grounded",
+    );
+  });
+
+  it("grounds the page behind the provider's redirect", () => {
+    expect(
+      checkUrlGrounding("https://shop-b.example/item/123", grounding),
+    ).toBe("grounded");
+  });
+
+  it("only trusts the site for other pages on it", () => {
+    expect(
+      checkUrlGrounding("https://shop-a.example/p/made-up", grounding),
+    ).toBe("same-site");
+    expect(checkUrlGrounding("https://shop-c.example/x", grounding)).toBe(
+      "same-site",
+    );
+  });
+
+  it("flags pages search never returned", () => {
+    expect(checkUrlGrounding("https://elsewhere.example/p", grounding)).toBe(
+      "ungrounded",
+    );
+  });
+
+  it("can't check without search results", () => {
+    expect(checkUrlGrounding("https://shop-a.example", undefined)).toBe(
+      "unchecked",
+    );
+    expect(
+      checkUrlGrounding("https://shop-a.example", {
+        searchQueries: [],
+        sources: [],
+      }),
+    ).toBe("unchecked");
+  });
+
+  it("compares against the given sources only", () => {
+    const [, ...others] = grounding.sources;
+    expect(
+      checkUrlGrounding("https://shop-a.example/p/lm358", grounding, others),
+    ).toBe("ungrounded");
+  });
+});
+
+describe("sourcesForRow", () => {
+  it("keeps the sources behind the parts that mention the row", () => {
+    expect(sourcesForRow(["U1", "LM358"], [], grounding)).toEqual([
+      grounding.sources[0],
+    ]);
+  });
+
+  it("matches the row's offer links too", () => {
+    const sources = sourcesForRow(["U2"], ["https://x.example/1"], {
+      ...grounding,
+      supports: [{ text: "https://x.example/1", sourceIndices: [2] }],
+    });
+    expect(sources).toEqual([grounding.sources[2]]);
+  });
+
+  it("falls back to all sources when no part mentions the row", () => {
+    expect(sourcesForRow(["C1", "GRM188"], [], grounding)).toEqual(
+      grounding.sources,
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { normalizePartNumber } from "./bomColumnUtils";
+import type { LlmGrounding, LlmGroundingSource } from "./llm/types";
+
+// "grounded": search returned this very page.
+// "same-site": search returned other pages of its site only, so the path
+// may still be made up.
+// "ungrounded": search ran but never returned it, so the model made it up.
+// "unchecked": the provider reported no search results to compare with.
+export type UrlGrounding =
+  "grounded" | "same-site" | "ungrounded" | "unchecked";
+
+export const URL_GROUNDING_LABELS: Record<UrlGrounding, string> = {
+  grounded: "Found in search results",
+  "same-site": "Only its site in search results",
+  ungrounded: "Not in search results",
+  unchecked: "Not checked",
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+// Gemini links results through a redirect and puts the site in the title
+const sourceDomain = ({ title, uri }: LlmGroundingSource) =>
+  /^[\w-]+(\.[\w-]+)+$/.test(title.trim())
+    ? title
+        .trim()
+        .toLowerCase()
+        .replace(/^www\./, "")
+    : hostOf(uri);
+
+const sameSite = (host: string, domain: string) =>
+  !!host &&
+  !!domain &&
+  (host === domain ||
+    host.endsWith(`.${domain}`) ||
+    domain.endsWith(`.${host}`));
+
+// Host, path and query; "www.", the fragment and trailing slashes don't
+// make a different page
+const pageKey = (url: string) => {
+  try {
+    const { hostname, pathname, search } = new URL(url.trim());
+    const host = hostname.toLowerCase().replace(/^www\./, "");
+    return `${host}${pathname.replace(/\/+$/, "")}${search}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+const isPage = (url: string, source: LlmGroundingSource) =>
+  [source.uri, source.resolvedUri]
+    .filter((uri): uri is string => !!uri)
+    .some((uri) => pageKey(uri) === pageKey(url));
+
+const isOnSite = (url: string, source: LlmGroundingSource) => {
+  const host = hostOf(url);
+  return (
+    sameSite(host, sourceDomain(source)) ||
+    (!!source.resolvedUri && sameSite(host, hostOf(source.resolvedUri)))
+  );
+};
+
+// Values long enough to identify a row, e.g. its part number
+const rowValues = (row: unknown[]) =>
+  row.map(normalizePartNumber).filter((value) => value.length >= 4);
+
+// The search results behind one row of a batch: those the provider says
+// back the parts of the answer that mention the row or its offers' links.
+// Without that breakdown, or when no part mentions the row, all of them.
+export function sourcesForRow(
+  row: unknown[],
+  urls: string[],
+  grounding: LlmGrounding | undefined,
+): LlmGroundingSource[] {
+  if (!grounding) return [];
+  const values = rowValues(row);
+  const indices = new Set(
+    (grounding.supports ?? [])
+      .filter(({ text }) => {
+        const normalized = normalizePartNumber(text);
+        return (
+          values.some((value) => normalized.includes(value)) ||
+          urls.some((url) => !!url && text.includes(url))
+        );
+      })
+      .flatMap(({ sourceIndices }) => sourceIndices),
+  );
+  return indices.size > 0
+    ? grounding.sources.filter((_, i) => indices.has(i))
+    : grounding.sources;
+}
+
+// Compares `url` with the row's search results (see sourcesForRow). Only
+// the exact page, directly or behind the provider's redirect, grounds it.
+export function checkUrlGrounding(
+  url: string,
+  grounding: LlmGrounding | undefined,
+  sources: LlmGroundingSource[] = grounding?.sources ?? [],
+): UrlGrounding {
+  if (!url || !grounding || grounding.sources.length === 0) return "unchecked";
+  if (sources.some((source) => isPage(url, source))) return "grounded";
+  if (sources.some((source) => isOnSite(url, source))) return "same-site";
+  return "ungrounded";
+}
+
+// The search results behind a row's offers: the exact pages when search
+// returned them, otherwise every result on the offers' sites
+export function sourcesForUrls(
+  urls: string[],
+  sources: LlmGroundingSource[],
+): LlmGroundingSource[] {
+  const exact = sources.filter((source) =>
+    urls.some((url) => isPage(url, source)),
+  );
+  if (exact.length > 0) return exact;
+  return sources.filter((source) => urls.some((url) => isOnSite(url, source)));
+}
+
+// The queries that mention one of the row's values (e.g. its part number)
+export function queriesForRow(
+  row: unknown[],
+  grounding: LlmGrounding | undefined,
+): string[] {
+  if (!grounding) return [];
+  const values = rowValues(row);
+  return grounding.searchQueries.filter((query) => {
+    const normalized = normalizePartNumber(query);
+    return values.some((value) => normalized.includes(value));
+  });
+}
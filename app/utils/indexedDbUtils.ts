@@ -0,0 +1,71 @@
+// One browser database for everything the app keeps across sessions that
+// is too large or too structured for localStorage. Adding a store means
+// bumping DB_VERSION.
+const DB_NAME = "excel-editor";
+const DB_VERSION = 3;
+const STORES = ["quotes", "priceLists", "priceHistory"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      // Another tab still has an older version open. Fail instead of
+      // waiting, so callers fall back to working without the database.
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(
+          new Error(
+            "The local database is being upgraded; close other tabs of this app and reload.",
+          ),
+        );
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after the other tab let go; a later call opens it again
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once every request of the transaction has been written
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
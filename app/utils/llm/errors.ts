@@ -0,0 +1,98 @@
+// Error categories shared by the server (which classifies provider failures)
+// and the browser (which decides whether to retry, switch model or give up).
+export type LlmErrorKind =
+  | "rate_limit" // Too many requests right now; waiting helps
+  | "quota" // Daily/billing quota exhausted for this model
+  | "auth" // Missing or invalid credentials; no model will work
+  | "bad_request" // The model rejected this request (unsupported input, unknown model)
+  | "safety" // Content was blocked by the provider's safety filters
+  | "network" // Provider or our server could not be reached
+  | "server" // Provider-side 5xx or overload
+  | "aborted" // Cancelled by the user; never retried
+  | "unknown";
+
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  status?: number;
+  retryAfterMs?: number; // Provider's hint for when to try again
+
+  constructor(
+    kind: LlmErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number } = {},
+  ) {
+    super(message);
+    this.name = "LlmError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// Wire format of a failed /api/ai/generate response
+export type LlmErrorBody = {
+  error: string;
+  kind: LlmErrorKind;
+  retryAfterMs?: number;
+};
+
+const NETWORK_ERROR_PATTERN =
+  /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|network/i;
+
+// Gemini embeds RetryInfo in the error text, e.g. "retryDelay":"17s"
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+export function classifyLlmError(err: unknown): LlmError {
+  if (err instanceof LlmError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const rawStatus = (err as { status?: unknown })?.status;
+  const status = typeof rawStatus === "number" ? rawStatus : undefined;
+  const options = { status, retryAfterMs: parseRetryDelay(message) };
+
+  if (
+    status === 401 ||
+    status === 403 ||
+    /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed/i.test(
+      message,
+    )
+  ) {
+    return new LlmError("auth", message, options);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit/i.test(message)) {
+    const isQuota = /PerDay|billing|insufficient_quota/i.test(message);
+    return new LlmError(isQuota ? "quota" : "rate_limit", message, options);
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new LlmError("safety", message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LlmError("server", message, options);
+  }
+  if (status === 400 || status === 404 || /INVALID_ARGUMENT/.test(message)) {
+    return new LlmError("bad_request", message, options);
+  }
+  if (err instanceof TypeError || NETWORK_ERROR_PATTERN.test(message)) {
+    return new LlmError("network", message, options);
+  }
+  return new LlmError("unknown", message, options);
+}
+
+const KIND_DESCRIPTIONS: Record<LlmErrorKind, string> = {
+  rate_limit: "was rate limited",
+  quota: "ran out of quota",
+  auth: "rejected the API credentials",
+  bad_request: "rejected the request",
+  safety: "blocked the content for safety reasons",
+  network: "could not be reached",
+  server: "had a server error",
+  aborted: "was cancelled",
+  unknown: "failed",
+};
+
+// "gemini-2.0-flash was rate limited"
+export const describeLlmError = (model: string, error: LlmError) =>
+  `${model} ${KIND_DESCRIPTIONS[error.kind]}`;
@@ -0,0 +1,168 @@
+import { GoogleGenAI, type GroundingMetadata } from "@google/genai";
+import { LlmError } from "./errors";
+import type { LlmGrounding, LlmProvider } from "./types";
+
+const DEFAULT_MODEL = "gemini-2.0-flash";
+// Search results link through this; the page itself is in the Location
+const REDIRECT_PATTERN = /\/grounding-api-redirect\//;
+const REDIRECT_TIMEOUT_MS = 3000;
+
+async function resolveRedirect(uri: string): Promise<string | undefined> {
+  if (!REDIRECT_PATTERN.test(uri)) return undefined;
+  try {
+    const response = await fetch(uri, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return response.headers.get("location") ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Follows each result's redirect so the client can compare real page URLs,
+// and keeps which results back which part of the answer
+async function toGrounding(metadata: GroundingMetadata): Promise<LlmGrounding> {
+  // Chunk index -> index in `sources`; only web chunks are kept
+  const sourceIndex = new Map<number, number>();
+  const sources = (metadata.groundingChunks ?? []).flatMap(({ web }, i) => {
+    if (!web?.uri) return [];
+    sourceIndex.set(i, sourceIndex.size);
+    return [{ title: web.title ?? "", uri: web.uri }];
+  });
+  const resolved = await Promise.all(
+    sources.map((source) => resolveRedirect(source.uri)),
+  );
+  return {
+    searchQueries: metadata.webSearchQueries ?? [],
+    sources: sources.map((source, i) =>
+      resolved[i] ? { ...source, resolvedUri: resolved[i] } : source,
+    ),
+    supports: (metadata.groundingSupports ?? []).flatMap(
+      ({ segment, groundingChunkIndices = [] }) => {
+        const sourceIndices = groundingChunkIndices.flatMap((i) => {
+          const index = sourceIndex.get(i);
+          return index === undefined ? [] : [index];
+        });
+        return segment?.text && sourceIndices.length > 0
+          ? [{ text: segment.text, sourceIndices }]
+          : [];
+      },
+    ),
+  };
+}
+
+export function createGeminiProvider(apiKey?: string): LlmProvider {
+  const isConfigured = !!(apiKey && apiKey.trim().length > 0);
+
+  let ai: GoogleGenAI | null = null;
+  if (isConfigured) {
+    try {
+      ai = new GoogleGenAI({ apiKey });
+    } catch (error) {
+      console.error("Failed to initialize Gemini client:", error);
+    }
+  }
+
+  return {
+    id: "gemini",
+    label: "Google Gemini",
+    defaultModel: DEFAULT_MODEL,
+    capabilities: { fileInput: true, webSearch: true },
+    isConfigured: () => isConfigured,
+
+    async listModels() {
+      if (!isConfigured) return [DEFAULT_MODEL];
+
+      try {
+        // Send the key as a header so it never ends up in request logs
+        const response = await fetch(
+          "https://generativelanguage.googleapis.com/v1beta/models",
+          { headers: { "x-goog-api-key": apiKey! } },
+        );
+        if (!response.ok) {
+          console.warn("Failed to fetch models, using default.");
+          return [DEFAULT_MODEL];
+        }
+
+        const data = await response.json();
+        if (data.models) {
+          const models = data.models
+            .filter((m: any) =>
+              m.supportedGenerationMethods.includes("generateContent"),
+            )
+            .map((m: any) => m.name.replace("models/", ""));
+
+          return models.sort((a: string, b: string) =>
+            a === DEFAULT_MODEL ? -1 : b === DEFAULT_MODEL ? 1 : 0,
+          );
+        }
+        return [DEFAULT_MODEL];
+      } catch (error) {
+        console.error("Error listing models:", error);
+        return [DEFAULT_MODEL];
+      }
+    },
+
+    async generate(
+      { model, systemInstruction, contents, config = {} },
+      signal,
+    ) {
+      if (!ai) {
+        throw new Error("Gemini is not configured on the server.");
+      }
+
+      const { webSearch, responseSchema, ...generationConfig } = config;
+      // Gemini rejects JSON mode combined with the search tool, so grounded
+      // requests rely on the prompt and client-side validation instead.
+      const structuredOutput =
+        responseSchema && !webSearch
+          ? {
+              responseMimeType: "application/json",
+              responseJsonSchema: responseSchema,
+            }
+          : {};
+      const result = await ai.models.generateContent({
+        model,
+        contents,
+        config: {
+          ...generationConfig,
+          ...structuredOutput,
+          systemInstruction,
+          tools: webSearch ? [{ googleSearch: {} }] : [],
+          abortSignal: signal,
+        },
+      });
+
+      const blockReason = result.promptFeedback?.blockReason;
+      if (blockReason) {
+        throw new LlmError("safety", `Prompt blocked: ${blockReason}`);
+      }
+      const finishReason = result.candidates?.[0]?.finishReason;
+      if (!result.text && finishReason && finishReason !== "STOP") {
+        throw new LlmError(
+          finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT"
+            ? "safety"
+            : "unknown",
+          `Generation stopped: ${finishReason}`,
+        );
+      }
+
+      const usage = result.usageMetadata;
+      const groundingMetadata = result.candidates?.[0]?.groundingMetadata;
+      return {
+        text: result.text || "",
+        grounding: groundingMetadata && (await toGrounding(groundingMetadata)),
+        usage: usage && {
+          inputTokens:
+            (usage.promptTokenCount ?? 0) +
+            (usage.toolUsePromptTokenCount ?? 0),
+          // Thinking tokens are billed as output
+          outputTokens:
+            (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { createGeminiProvider } from "./gemini.server";
+import { createMockProvider } from "./mock.server";
+import { createOpenAiCompatibleProvider } from "./openAiCompatible.server";
+import type { LlmProvider } from "./types";
+
+// LLM_PROVIDER selects the backend: "gemini" (default), "openai" for any
+// OpenAI-compatible server such as Ollama or llama.cpp, or "mock".
+function createProvider(): LlmProvider {
+  const providerId = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+
+  switch (providerId) {
+    case "openai":
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || undefined,
+      });
+    case "mock":
+      return createMockProvider();
+    case "gemini":
+      return createGeminiProvider(process.env.GEMINI_API_KEY);
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${providerId}", using Gemini.`);
+      return createGeminiProvider(process.env.GEMINI_API_KEY);
+  }
+}
+
+export const llmProvider = createProvider();
@@ -0,0 +1,130 @@
+import type { LlmContent, LlmGrounding, LlmProvider } from "./types";
+
+const MOCK_MODEL = "mock-1";
+
+// Small stable string hash so the same input always yields the same output
+const hash = (value: string) => {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) {
+    h = ((h << 5) + h + value.charCodeAt(i)) >>> 0;
+  }
+  return h;
+};
+
+const lastUserText = (contents: LlmContent[]) => {
+  const last = [...contents].reverse().find((c) => c.role === "user");
+  return (last?.parts ?? []).map((p) => ("text" in p ? p.text : "")).join("\n");
+};
+
+const parseJsonAfter = (text: string, marker: string): unknown => {
+  const match = text.match(new RegExp(`${marker}\\s*(\\[.*\\])`));
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+};
+
+function mockExtraction(headers: unknown[]) {
+  const rows = [1, 2].map((n) => ({
+    data: headers.map((h) => `Mock ${String(h)} ${n}`),
+    citation: { type: "document", page: n, quote: `Mock line ${n}` },
+  }));
+  return JSON.stringify({ rows });
+}
+
+function mockQuotes(items: { rowId: number; data: unknown }[]) {
+  const quotes = items.map(({ rowId, data }) => {
+    const seed = hash(JSON.stringify(data));
+    const packQuantity = [1, 5, 10][seed % 3];
+    const offers = ["mock-shop-a.example", "mock-shop-b.example"].map(
+      (supplier, i) => {
+        const unitPrice = (((seed >>> i) % 10000) / 100 + 1).toFixed(2);
+        return {
+          supplier,
+          totalPrice: (Number(unitPrice) * packQuantity).toFixed(2),
+          pricePerUnit: unitPrice,
+          pricesIncludeVat: false,
+          packQuantity,
+          priceBreaks: [10, 100].map((minQuantity, tier) => ({
+            minQuantity: minQuantity * packQuantity,
+            pricePerUnit: (Number(unitPrice) * (0.9 - tier * 0.1)).toFixed(2),
+          })),
+          estimatedDelivery: `${(seed % 5) + 1 + i}-${(seed % 5) + 3 + i} days`,
+          sourceUrl: `https://${supplier}/p/${rowId}`,
+          reasoning: "Mock offer.",
+        };
+      },
+    );
+    return {
+      rowId,
+      offers,
+      reasoning: "Mock quote (deterministic, no search performed).",
+    };
+  });
+  return "```json\n" + JSON.stringify(quotes) + "\n```";
+}
+
+// Only the first shop "appears" in the search results, so the second
+// offer's URL exercises the ungrounded-URL handling
+function mockGrounding(
+  items: { rowId: number; data: unknown }[],
+): LlmGrounding {
+  return {
+    searchQueries: items.map(({ data }) =>
+      (Array.isArray(data) ? data : [data]).map(String).join(" ").trim(),
+    ),
+    sources: items.map(({ rowId }) => ({
+      title: "mock-shop-a.example",
+      uri: `https://mock-shop-a.example/p/${rowId}`,
+    })),
+    // Each row's link is backed by its own result
+    supports: items.map(({ rowId }, i) => ({
+      text: `"sourceUrl":"https://mock-shop-a.example/p/${rowId}"`,
+      sourceIndices: [i],
+    })),
+  };
+}
+
+// Offline provider for development and tests. It recognises the extraction
+// and quoting prompts by their markers and answers with data derived only
+// from the input, so repeated runs produce identical results.
+export function createMockProvider(): LlmProvider {
+  return {
+    id: "mock",
+    label: "Mock (offline)",
+    defaultModel: MOCK_MODEL,
+    capabilities: { fileInput: true, webSearch: true },
+    isConfigured: () => true,
+
+    async listModels() {
+      return [MOCK_MODEL];
+    },
+
+    async generate({ contents, config = {} }) {
+      const prompt = lastUserText(contents);
+
+      const headers = parseJsonAfter(prompt, "TARGET HEADERS:");
+      const items = parseJsonAfter(prompt, "ROWS:");
+      const text = Array.isArray(headers)
+        ? mockExtraction(headers)
+        : Array.isArray(items)
+          ? mockQuotes(items)
+          : `Mock response to: ${prompt.trim()}`;
+
+      // Roughly four characters per token, like most tokenizers
+      return {
+        text,
+        grounding:
+          config.webSearch && Array.isArray(items)
+            ? mockGrounding(items)
+            : undefined,
+        usage: {
+          inputTokens: Math.ceil(prompt.length / 4),
+          outputTokens: Math.ceil(text.length / 4),
+        },
+      };
+    },
+  };
+}
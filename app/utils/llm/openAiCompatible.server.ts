@@ -0,0 +1,161 @@
+import { classifyLlmError, LlmError } from "./errors";
+import type { LlmContent, LlmProvider } from "./types";
+
+type OpenAiCompatibleOptions = {
+  baseUrl?: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Most local servers ignore it
+  defaultModel?: string;
+};
+
+type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content:
+    | string
+    | (
+        | { type: "text"; text: string }
+        | { type: "image_url"; image_url: { url: string } }
+      )[];
+};
+
+// GET /models; servers differ in the other fields
+type ModelList = { data?: { id: string }[] };
+
+const isTextMimeType = (mimeType: string) =>
+  mimeType.startsWith("text/") || mimeType === "application/json";
+
+// Local OpenAI-compatible servers (Ollama, llama.cpp) take plain text and,
+// for vision models, images. Text files are decoded and inlined; anything
+// else (PDFs, spreadsheets) cannot be sent.
+function toChatMessage(content: LlmContent): ChatMessage {
+  const parts = content.parts.map((part) => {
+    if ("text" in part) return { type: "text" as const, text: part.text };
+
+    const { data, mimeType } = part.inlineData;
+    if (isTextMimeType(mimeType)) {
+      const text = Buffer.from(data, "base64").toString("utf-8");
+      return { type: "text" as const, text };
+    }
+    if (mimeType.startsWith("image/")) {
+      return {
+        type: "image_url" as const,
+        image_url: { url: `data:${mimeType};base64,${data}` },
+      };
+    }
+    throw new LlmError(
+      "bad_request",
+      `Files of type ${mimeType} are not supported by this provider.`,
+    );
+  });
+
+  return {
+    role: content.role === "model" ? "assistant" : "user",
+    content: parts.every((p) => p.type === "text")
+      ? parts.map((p) => (p.type === "text" ? p.text : "")).join("\n")
+      : parts,
+  };
+}
+
+export function createOpenAiCompatibleProvider({
+  baseUrl,
+  apiKey,
+  defaultModel = "llama3.1",
+}: OpenAiCompatibleOptions): LlmProvider {
+  const root = baseUrl?.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
+  return {
+    id: "openai-compatible",
+    label: "OpenAI-compatible",
+    defaultModel,
+    capabilities: { fileInput: false, webSearch: false },
+    isConfigured: () => !!root,
+
+    async listModels() {
+      if (!root) return [defaultModel];
+
+      try {
+        const response = await fetch(`${root}/models`, { headers });
+        if (!response.ok) {
+          console.warn("Failed to fetch models, using default.");
+          return [defaultModel];
+        }
+
+        const data: ModelList = await response.json();
+        const models = (data.data ?? []).map((m) => m.id);
+        if (models.length === 0) return [defaultModel];
+
+        return models.sort((a, b) =>
+          a === defaultModel ? -1 : b === defaultModel ? 1 : 0,
+        );
+      } catch (error) {
+        console.error("Error listing models:", error);
+        return [defaultModel];
+      }
+    },
+
+    async generate(
+      { model, systemInstruction, contents, config = {} },
+      signal,
+    ) {
+      if (!root) {
+        throw new Error("OpenAI-compatible provider has no base URL.");
+      }
+      if (config.webSearch) {
+        throw new LlmError(
+          "bad_request",
+          "Web search is not supported by this provider.",
+        );
+      }
+
+      const messages: ChatMessage[] = [
+        { role: "system", content: systemInstruction },
+        ...contents.map(toChatMessage),
+      ];
+
+      const response = await fetch(`${root}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: config.temperature,
+          stream: false,
+          ...(config.responseSchema && {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "response", schema: config.responseSchema },
+            },
+          }),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        const error = classifyLlmError(
+          Object.assign(
+            new Error(
+              `Chat completion failed (${response.status}): ${detail}`.trim(),
+            ),
+            { status: response.status },
+          ),
+        );
+        const retryAfter = Number(response.headers.get("retry-after"));
+        if (retryAfter > 0) error.retryAfterMs = retryAfter * 1000;
+        throw error;
+      }
+
+      const data = await response.json();
+      return {
+        text: data.choices?.[0]?.message?.content ?? "",
+        usage: data.usage && {
+          inputTokens: data.usage.prompt_tokens ?? 0,
+          outputTokens: data.usage.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
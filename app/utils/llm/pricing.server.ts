@@ -0,0 +1,55 @@
+import type { LlmUsage } from "./types";
+
+// USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+// Published list prices for the default Gemini models. Entries match by
+// prefix, so "gemini-2.5-flash" also covers "gemini-2.5-flash-preview-05-20";
+// the longest matching prefix wins.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "mock-": { input: 0, output: 0 },
+};
+
+// LLM_MODEL_PRICES overrides or extends the table, e.g.
+// {"llama3.1": {"input": 0, "output": 0}, "gemini-2.0-flash": {"input": 0.15, "output": 0.6}}
+function loadPriceTable(): Record<string, ModelPrice> {
+  const override = process.env.LLM_MODEL_PRICES;
+  if (!override) return DEFAULT_MODEL_PRICES;
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(override) };
+  } catch (error) {
+    console.error("Ignoring invalid LLM_MODEL_PRICES:", error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+const priceTable = loadPriceTable();
+
+export function findModelPrice(model: string): ModelPrice | undefined {
+  const match = Object.keys(priceTable)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? priceTable[match] : undefined;
+}
+
+export function withEstimatedCost(model: string, usage: LlmUsage): LlmUsage {
+  const price = findModelPrice(model);
+  if (!price) return usage;
+  return {
+    ...usage,
+    costUsd:
+      (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+      1_000_000,
+  };
+}
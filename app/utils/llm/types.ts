@@ -0,0 +1,89 @@
+// Provider-neutral request/response shapes shared by the browser and the
+// server. The content format mirrors Gemini's, which the prompts were
+// written against; other providers translate it into their own wire format.
+
+export type LlmPart =
+  { text: string } | { inlineData: { data: string; mimeType: string } };
+
+export type LlmContent = {
+  role: "user" | "model";
+  parts: LlmPart[];
+};
+
+// The subset of JSON Schema that all providers understand
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: string[];
+  anyOf?: JsonSchema[];
+};
+
+export type LlmGenerateConfig = {
+  temperature?: number;
+  webSearch?: boolean; // Ground the answer with the provider's web search tool
+  responseSchema?: JsonSchema; // Ask for JSON output matching this schema
+};
+
+export type LlmGenerateRequest = {
+  model: string;
+  systemInstruction: string;
+  contents: LlmContent[];
+  config?: LlmGenerateConfig;
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd?: number; // Estimated from the server's price table; unset if unknown
+};
+
+export type LlmGroundingSource = {
+  title: string; // Usually the site's domain
+  uri: string; // May be a redirect through the provider
+  resolvedUri?: string; // Where that redirect leads, if the server followed it
+};
+
+// A piece of the answer and the sources the provider says back it
+export type LlmGroundingSupport = {
+  text: string;
+  sourceIndices: number[]; // Into LlmGrounding.sources
+};
+
+// What a web-search-grounded answer was based on, as reported by the
+// provider rather than by the model's own text
+export type LlmGrounding = {
+  searchQueries: string[];
+  sources: LlmGroundingSource[];
+  supports?: LlmGroundingSupport[];
+};
+
+export type LlmGenerateResult = {
+  text: string;
+  usage?: LlmUsage;
+  grounding?: LlmGrounding; // Only for webSearch requests the provider grounded
+};
+
+export type LlmCapabilities = {
+  fileInput: boolean; // Accepts PDFs and other binary documents as inline data
+  webSearch: boolean;
+};
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  defaultModel: string;
+  capabilities: LlmCapabilities;
+  isConfigured: () => boolean;
+  listModels: () => Promise<string[]>;
+  // `signal` is the incoming request's, so a cancelled request stops the
+  // provider call too
+  generate: (
+    request: LlmGenerateRequest,
+    signal?: AbortSignal,
+  ) => Promise<LlmGenerateResult>;
+}
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LlmErrorBody, LlmErrorKind } from "./llm/errors";
+import { generateContentWithFallback, type RetryPolicy } from "./llmApi";
+
+const POLICY: RetryPolicy = {
+  maxAttempts: 6,
+  maxRetriesPerModel: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+};
+
+const ok = (text: string) => Response.json({ text });
+const failure = (kind: LlmErrorKind, status = 502, retryAfterMs?: number) =>
+  Response.json({ error: kind, kind, retryAfterMs } satisfies LlmErrorBody, {
+    status,
+  });
+
+// Answers each request with the next response, recording the model asked
+function stubServer(...responses: Response[]) {
+  const models: string[] = [];
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    models.push(JSON.parse(String(init?.body)).model);
+    const response = responses.shift();
+    if (!response) throw new Error("Unexpected request");
+    return response;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return models;
+}
+
+const generate = (
+  models: string[],
+  options: Parameters<typeof generateContentWithFallback>[4] = {},
+) =>
+  generateContentWithFallback(models[0], models, "system", [], {
+    policy: POLICY,
+    ...options,
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("generateContentWithFallback", () => {
+  it("returns the first answer", async () => {
+    const asked = stubServer(ok("hi"));
+    await expect(generate(["a", "b"])).resolves.toMatchObject({
+      text: "hi",
+      finalModel: "a",
+    });
+    expect(asked).toEqual(["a"]);
+  });
+
+  it("retries transient errors on the same model before falling back", async () => {
+    const asked = stubServer(
+      failure("rate_limit", 429),
+      failure("server"),
+      failure("rate_limit", 429),
+      ok("from b"),
+    );
+    const onRetry = vi.fn();
+    const outcome = await generate(["a", "b"], { onRetry });
+
+    expect(asked).toEqual(["a", "a", "a", "b"]);
+    expect(outcome.finalModel).toBe("b");
+    expect(onRetry).toHaveBeenCalledWith(
+      "a",
+      "b",
+      expect.objectContaining({ kind: "rate_limit" }),
+    );
+  });
+
+  it("moves on right away when the model itself is the problem", async () => {
+    const asked = stubServer(
+      failure("quota", 429),
+      failure("bad_request", 400),
+      ok("c"),
+    );
+    await generate(["a", "b", "c"]);
+    expect(asked).toEqual(["a", "b", "c"]);
+  });
+
+  it("fails fast on errors no other model fixes", async () => {
+    const asked = stubServer(failure("auth", 401));
+    await expect(generate(["a", "b"])).rejects.toMatchObject({
+      kind: "auth",
+      message: "AI request failed: a rejected the API credentials.",
+    });
+    expect(asked).toEqual(["a"]);
+  });
+
+  it("gives up when no model is left", async () => {
+    stubServer(failure("bad_request", 400), failure("bad_request", 400));
+    await expect(generate(["a", "b"])).rejects.toThrow(
+      "b rejected the request and no other model is available",
+    );
+  });
+
+  it("stops after the attempt budget", async () => {
+    const asked = stubServer(
+      failure("server"),
+      failure("server"),
+      failure("server"),
+      failure("server"),
+    );
+    await expect(
+      generate(["a", "b"], { policy: { ...POLICY, maxAttempts: 4 } }),
+    ).rejects.toThrow("(gave up after 4 attempts)");
+    expect(asked).toEqual(["a", "a", "a", "b"]);
+  });
+
+  it("caps the provider's retry hint at the longest delay", async () => {
+    stubServer(failure("rate_limit", 429, 60_000), ok("late"));
+    const started = Date.now();
+    await generate(["a"]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("cancels a pending backoff on abort", async () => {
+    const controller = new AbortController();
+    const asked = stubServer(failure("rate_limit", 429, 60_000));
+    const outcome = generate(["a", "b"], {
+      signal: controller.signal,
+      policy: { ...POLICY, maxDelayMs: 60_000 },
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(outcome).rejects.toMatchObject({ kind: "aborted" });
+    expect(asked).toEqual(["a"]);
+  });
+
+  it("reports an unreachable server as a network error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("Failed to fetch");
+      }),
+    );
+    await expect(
+      generate(["a"], { policy: { ...POLICY, maxRetriesPerModel: 0 } }),
+    ).rejects.toMatchObject({ kind: "network" });
+  });
+});
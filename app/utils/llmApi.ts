@@ -0,0 +1,246 @@
+import {
+  classifyLlmError,
+  describeLlmError,
+  LlmError,
+  type LlmErrorBody,
+  type LlmErrorKind,
+} from "./llm/errors";
+import { recordAiUsage, type AiUsageTag } from "./aiUsageStore";
+import type {
+  LlmCapabilities,
+  LlmContent,
+  LlmGenerateConfig,
+  LlmGenerateRequest,
+  LlmGenerateResult,
+  LlmGrounding,
+} from "./llm/types";
+
+export type AiStatus = {
+  isAiEnabled: boolean;
+  provider: string;
+  defaultModel: string;
+  models: string[];
+  capabilities: LlmCapabilities;
+};
+
+export const AI_DISABLED_STATUS: AiStatus = {
+  isAiEnabled: false,
+  provider: "",
+  defaultModel: "",
+  models: [],
+  capabilities: { fileInput: false, webSearch: false },
+};
+
+// The provider and its credentials live on the server, so whether AI is
+// usable is whatever the server reports. Any failure here simply disables
+// the AI features.
+export async function fetchAiStatus(): Promise<AiStatus> {
+  try {
+    const response = await fetch("/api/ai/models");
+    if (!response.ok) {
+      console.warn("Failed to fetch AI status, disabling AI features.");
+      return AI_DISABLED_STATUS;
+    }
+
+    const data: AiStatus = await response.json();
+    return {
+      ...data,
+      isAiEnabled: !!data.isAiEnabled,
+      models: data.models?.length ? data.models : [data.defaultModel],
+    };
+  } catch (error) {
+    console.error("Error fetching AI status:", error);
+    return AI_DISABLED_STATUS;
+  }
+}
+
+export type RetryPolicy = {
+  maxAttempts: number; // Total requests across all models
+  maxRetriesPerModel: number; // Same-model retries for transient errors
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 6,
+  maxRetriesPerModel: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+};
+
+// Transient failures worth waiting out on the same model
+const RETRY_SAME_MODEL: LlmErrorKind[] = ["rate_limit", "network", "server"];
+// Failures no other model will fix: bad credentials, blocked content, or a
+// provider that stays unreachable after the same-model retries
+const FAIL_FAST: LlmErrorKind[] = ["auth", "safety", "network"];
+
+// Exponential backoff with "equal jitter": half fixed, half random, so
+// parallel callers don't retry in lockstep. The provider's hint wins.
+const backoffDelay = (retry: number, policy: RetryPolicy, error: LlmError) => {
+  if (error.retryAfterMs)
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+};
+
+// Resolves after `ms`, or right away when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+export type GenerateOptions = {
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void;
+  config?: LlmGenerateConfig;
+  policy?: RetryPolicy;
+  usage?: AiUsageTag; // Records tokens and cost of each successful call
+  signal?: AbortSignal; // Stops the request and any pending retry
+};
+
+export type GenerationOutcome = {
+  text: string;
+  finalModel: string;
+  grounding?: LlmGrounding;
+};
+
+const abortedError = () => new LlmError("aborted", "Request cancelled.");
+
+async function requestGeneration(
+  body: LlmGenerateRequest,
+  signal?: AbortSignal,
+): Promise<LlmGenerateResult> {
+  let response: Response;
+  try {
+    response = await fetch("/api/ai/generate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch {
+    if (signal?.aborted) throw abortedError();
+    throw new LlmError("network", "Could not reach the AI server.");
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = data.error || `Request failed (${response.status})`;
+    if (data.kind) {
+      const { kind, retryAfterMs } = data as LlmErrorBody;
+      throw new LlmError(kind, message, {
+        status: response.status,
+        retryAfterMs,
+      });
+    }
+    throw classifyLlmError(
+      Object.assign(new Error(message), { status: response.status }),
+    );
+  }
+  return {
+    text: data.text || "",
+    usage: data.usage,
+    grounding: data.grounding,
+  };
+}
+
+// Runs the request on startModel, retrying transient errors with backoff and
+// moving down availableModels for model-specific failures. Throws an
+// LlmError describing the last failure once the policy gives up.
+export async function generateContentWithFallback(
+  startModel: string,
+  availableModels: string[],
+  systemInstruction: string,
+  contents: LlmContent[],
+  {
+    onRetry,
+    config = {},
+    policy = DEFAULT_RETRY_POLICY,
+    usage: usageTag,
+    signal,
+  }: GenerateOptions = {},
+): Promise<GenerationOutcome> {
+  const getNextModel = (current: string, excluded: string[]) => {
+    const idx = availableModels.indexOf(current);
+    const next = availableModels
+      .slice(idx + 1)
+      .find((m) => !excluded.includes(m));
+    return next;
+  };
+
+  let attemptsUsed = 0;
+
+  const attempt = async (
+    modelName: string,
+    failedList: string[],
+    retry: number,
+  ): Promise<GenerationOutcome> => {
+    if (signal?.aborted) throw abortedError();
+    attemptsUsed++;
+    const startedAt = performance.now();
+    try {
+      const { text, usage, grounding } = await requestGeneration(
+        {
+          model: modelName,
+          systemInstruction,
+          contents,
+          config,
+        },
+        signal,
+      );
+      if (usageTag) {
+        recordAiUsage({
+          ...usageTag,
+          model: modelName,
+          inputTokens: usage?.inputTokens ?? 0,
+          outputTokens: usage?.outputTokens ?? 0,
+          costUsd: usage?.costUsd,
+          durationMs: Math.round(performance.now() - startedAt),
+        });
+      }
+      return { text, finalModel: modelName, grounding };
+    } catch (err) {
+      if (signal?.aborted) throw abortedError();
+      const error = classifyLlmError(err);
+      console.warn(`Model ${modelName} failed (${error.kind}):`, err);
+
+      const giveUp = (reason: string) =>
+        new LlmError(
+          error.kind,
+          `AI request failed: ${describeLlmError(modelName, error)}${reason}.`,
+          { status: error.status },
+        );
+
+      if (attemptsUsed >= policy.maxAttempts) {
+        throw giveUp(` (gave up after ${attemptsUsed} attempts)`);
+      }
+
+      if (
+        RETRY_SAME_MODEL.includes(error.kind) &&
+        retry < policy.maxRetriesPerModel
+      ) {
+        await sleep(backoffDelay(retry, policy, error), signal);
+        return attempt(modelName, failedList, retry + 1);
+      }
+
+      if (FAIL_FAST.includes(error.kind)) throw giveUp("");
+
+      const newFailedList = [...failedList, modelName];
+      const nextModel = getNextModel(modelName, newFailedList);
+
+      if (nextModel) {
+        if (onRetry) onRetry(modelName, nextModel, error);
+        return attempt(nextModel, newFailedList, 0);
+      } else {
+        throw giveUp(" and no other model is available");
+      }
+    }
+  };
+
+  return attempt(startModel, [], 0);
+}
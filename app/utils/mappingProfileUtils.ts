@@ -0,0 +1,103 @@
+import type { ColumnMapping } from "./spreadsheetImportUtils";
+
+// A saved column mapping for one supplier's or template's layout. Columns are
+// stored by header name so the profile still applies if the order changes.
+export type MappingProfile = {
+  id: string;
+  name: string; // Supplier or template, e.g. "Mouser BOM export"
+  sourceHeaders: string[]; // The layout the profile was saved for
+  columns: Record<string, string>; // Target header -> source header
+  updatedAt: number;
+};
+
+const STORAGE_KEY = "excel-editor.mapping-profiles";
+
+const headerKey = (header: unknown) =>
+  String(header ?? "")
+    .trim()
+    .toLowerCase();
+
+export function loadMappingProfiles(): MappingProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+const storeMappingProfiles = (profiles: MappingProfile[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+
+// Saving under an existing name replaces that profile
+export function saveMappingProfile(
+  name: string,
+  sourceHeaders: unknown[],
+  targetHeaders: unknown[],
+  mapping: ColumnMapping,
+): MappingProfile[] {
+  const columns: Record<string, string> = {};
+  mapping.forEach((s, t) => {
+    if (s !== null) {
+      columns[String(targetHeaders[t] ?? "")] = String(sourceHeaders[s] ?? "");
+    }
+  });
+
+  const others = loadMappingProfiles().filter(
+    (p) => headerKey(p.name) !== headerKey(name),
+  );
+  const profiles = [
+    ...others,
+    {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      sourceHeaders: sourceHeaders.map((h) => String(h ?? "")),
+      columns,
+      updatedAt: Date.now(),
+    },
+  ];
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+export function deleteMappingProfile(id: string): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter((p) => p.id !== id);
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+// Column order doesn't matter, the set of header names identifies a layout
+const layoutKey = (headers: unknown[]) =>
+  headers.map(headerKey).sort().join("\u0000");
+
+// The profile saved for exactly this set of source headers, if any
+export function findMappingProfile(
+  profiles: MappingProfile[],
+  sourceHeaders: unknown[],
+): MappingProfile | undefined {
+  const layout = layoutKey(sourceHeaders);
+  return profiles
+    .filter((p) => layoutKey(p.sourceHeaders) === layout)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+}
+
+export function applyMappingProfile(
+  profile: MappingProfile,
+  targetHeaders: unknown[],
+  sourceHeaders: unknown[],
+): ColumnMapping {
+  const sourceIndex = new Map(sourceHeaders.map((h, i) => [headerKey(h), i]));
+  const columns = new Map(
+    Object.entries(profile.columns).map(([target, source]) => [
+      headerKey(target),
+      source,
+    ]),
+  );
+  return targetHeaders.map((target) => {
+    const source = columns.get(headerKey(target));
+    return source === undefined
+      ? null
+      : (sourceIndex.get(headerKey(source)) ?? null);
+  });
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { QuoteOffer } from "./aiQuotingUtils";
+import { money } from "./currencyUtils";
+import {
+  computeOrderLine,
+  parseQuantity,
+  priceBreakFor,
+  requiredQuantity,
+  summarizeOrder,
+} from "./orderUtils";
+
+const offer = (overrides: Partial<QuoteOffer> = {}): QuoteOffer => ({
+  supplier: "Shop",
+  totalPrice: null,
+  pricePerUnit: money(2, "EUR"),
+  priceBasis: "net",
+  estimatedDelivery: "",
+  packQuantity: 1,
+  priceBreaks: [],
+  stock: null,
+  sourceUrl: "",
+  urlGrounding: "unchecked",
+  origin: "web-search",
+  reasoning: "",
+  ...overrides,
+});
+
+describe("parseQuantity", () => {
+  it("reads numbers and numeric text", () => {
+    expect(parseQuantity(4)).toBe(4);
+    expect(parseQuantity("12")).toBe(12);
+    expect(parseQuantity("1.000,5")).toBe(1000.5);
+  });
+
+  it("counts empty or unreadable quantities as one piece", () => {
+    expect(parseQuantity("")).toBe(1);
+    expect(parseQuantity("N/A")).toBe(1);
+    expect(parseQuantity("many")).toBe(1);
+    expect(parseQuantity(0)).toBe(1);
+  });
+});
+
+describe("requiredQuantity", () => {
+  it("multiplies the BOM quantity by the build quantity", () => {
+    expect(requiredQuantity(["R1", "3"], 1, 10)).toBe(30);
+  });
+
+  it("counts one per unit without a quantity column", () => {
+    expect(requiredQuantity(["R1", "3"], -1, 10)).toBe(10);
+  });
+});
+
+describe("priceBreakFor", () => {
+  const tiered = offer({
+    priceBreaks: [
+      { minQuantity: 10, pricePerUnit: money(1.5, "EUR") },
+      { minQuantity: 100, pricePerUnit: money(1, "EUR") },
+    ],
+  });
+
+  it("picks the highest tier the quantity reaches", () => {
+    expect(priceBreakFor(tiered, 9)).toBeUndefined();
+    expect(priceBreakFor(tiered, 10)?.minQuantity).toBe(10);
+    expect(priceBreakFor(tiered, 250)?.minQuantity).toBe(100);
+  });
+
+  it("handles offers cached without price breaks", () => {
+    const cached = {
+      ...offer(),
+      priceBreaks: undefined,
+    } as unknown as QuoteOffer;
+    expect(priceBreakFor(cached, 50)).toBeUndefined();
+  });
+});
+
+describe("computeOrderLine", () => {
+  it("returns null without an offer or a price", () => {
+    expect(computeOrderLine(5, undefined)).toBeNull();
+    expect(computeOrderLine(5, offer({ pricePerUnit: null }))).toBeNull();
+  });
+
+  it("rounds up to whole packs", () => {
+    const line = computeOrderLine(7, offer({ packQuantity: "5" }));
+    expect(line).toMatchObject({ packs: 2, orderQuantity: 10 });
+    expect(line?.lineTotal).toEqual(money(20, "EUR"));
+  });
+
+  it("prices the order quantity at the tier it reaches", () => {
+    const line = computeOrderLine(
+      8,
+      offer({
+        packQuantity: 5,
+        priceBreaks: [{ minQuantity: 10, pricePerUnit: money(1.5, "EUR") }],
+      }),
+    );
+    expect(line?.pricePerUnit).toEqual(money(1.5, "EUR"));
+    expect(line?.lineTotal).toEqual(money(15, "EUR"));
+  });
+
+  it("charges packs at the total price", () => {
+    const line = computeOrderLine(
+      30,
+      offer({
+        packQuantity: 25,
+        pricePerUnit: null,
+        totalPrice: money(10, "USD"),
+      }),
+    );
+    expect(line?.packs).toBe(2);
+    expect(line?.pricePerUnit).toEqual(money(0.4, "USD", 4));
+    expect(line?.lineTotal).toEqual(money(20, "USD"));
+  });
+});
+
+describe("summarizeOrder", () => {
+  const data = [
+    ["Part", "Line Total"],
+    ["R1", money(10, "EUR")],
+    ["R2", money(11, "USD")],
+    ["R3", money(5, "CHF")],
+    ["R4", ""],
+    ["", ""],
+  ];
+
+  it("totals line totals in the display currency", () => {
+    const summary = summarizeOrder(data, 1, "EUR", { EUR: 1, USD: 1.1 });
+    expect(summary.grandTotal).toEqual(money(20, "EUR"));
+    expect(summary).toMatchObject({
+      itemCount: 4,
+      unquotedCount: 1,
+      unconvertedCount: 1,
+    });
+  });
+
+  it("counts every item as unquoted without a line total column", () => {
+    const summary = summarizeOrder(data, -1, "EUR", { EUR: 1 });
+    expect(summary.grandTotal.amount).toBe(0);
+    expect(summary.unquotedCount).toBe(4);
+  });
+});
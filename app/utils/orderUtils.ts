@@ -0,0 +1,115 @@
+import type { QuoteOffer } from "./aiQuotingUtils";
+import { isNotAvailable, parsePrice } from "./aiSchemaUtils";
+import {
+  convertMoney,
+  money,
+  parseMoney,
+  type ExchangeRates,
+  type Money,
+} from "./currencyUtils";
+
+export type OrderLine = {
+  packs: number;
+  orderQuantity: number;
+  pricePerUnit: Money; // After price breaks
+  lineTotal: Money;
+};
+
+export type OrderSummary = {
+  grandTotal: Money;
+  itemCount: number;
+  unquotedCount: number;
+  unconvertedCount: number; // Priced in a currency without a rate
+};
+
+const toNumber = (value: unknown) =>
+  isNotAvailable(value) ? null : parsePrice(value);
+
+// A BOM quantity cell; empty or unreadable quantities count as one piece
+export function parseQuantity(value: unknown): number {
+  const quantity = toNumber(value);
+  return quantity !== null && quantity > 0 ? quantity : 1;
+}
+
+// What a row needs for the whole build: its BOM quantity (1 without a
+// quantity column) times the number of units being built
+export const requiredQuantity = (
+  row: unknown[],
+  quantityCol: number,
+  buildQuantity: number,
+) => (quantityCol === -1 ? 1 : parseQuantity(row[quantityCol])) * buildQuantity;
+
+// The highest price break the quantity reaches, if any. Quotes cached
+// before price breaks were collected have none.
+export const priceBreakFor = (offer: QuoteOffer, quantity: number) =>
+  [...(offer.priceBreaks ?? [])]
+    .reverse()
+    .find((tier) => quantity >= tier.minQuantity);
+
+// Rounds the required quantity up to whole packs. A reached price break
+// sets the unit price; otherwise the pack price is the offer's total
+// price, falling back to its unit price.
+export function computeOrderLine(
+  required: number,
+  offer: QuoteOffer | undefined,
+): OrderLine | null {
+  if (!offer) return null;
+  const packSize = toNumber(offer.packQuantity) ?? 1;
+  const packs = Math.ceil(required / packSize);
+  const orderQuantity = packs * packSize;
+  const line = (pricePerUnit: Money, lineTotal: number) => ({
+    packs,
+    orderQuantity,
+    pricePerUnit,
+    lineTotal: money(lineTotal, pricePerUnit.currency),
+  });
+
+  const tier = priceBreakFor(offer, orderQuantity);
+  if (tier) {
+    return line(tier.pricePerUnit, orderQuantity * tier.pricePerUnit.amount);
+  }
+  const packPrice = offer.totalPrice;
+  const unitPrice = offer.pricePerUnit;
+  if (packPrice) {
+    return line(
+      unitPrice ?? money(packPrice.amount / packSize, packPrice.currency, 4),
+      packs * packPrice.amount,
+    );
+  }
+  if (unitPrice) return line(unitPrice, orderQuantity * unitPrice.amount);
+  return null;
+}
+
+// Totals the line total column over the body rows in `currency`. Rows
+// with any content are items; items without a line total are unquoted.
+// Plain numbers typed into the column count as `currency`.
+export function summarizeOrder(
+  data: unknown[][],
+  lineTotalCol: number,
+  currency: string,
+  rates: ExchangeRates,
+): OrderSummary {
+  let grandTotal = 0;
+  let itemCount = 0;
+  let unquotedCount = 0;
+  let unconvertedCount = 0;
+  data.slice(1).forEach((row) => {
+    if (!row.some((cell) => String(cell ?? "").trim() !== "")) return;
+    itemCount++;
+    const lineTotal =
+      lineTotalCol === -1 ? null : parseMoney(row[lineTotalCol], currency);
+    if (!lineTotal) {
+      unquotedCount++;
+      return;
+    }
+    const converted = convertMoney(lineTotal, currency, rates);
+    if (converted) grandTotal += converted.amount;
+    else unconvertedCount++;
+  });
+  return {
+    grandTotal: money(grandTotal, currency),
+    itemCount,
+    unquotedCount,
+    unconvertedCount,
+  };
+}
@@ -0,0 +1,135 @@
+import { PDFDocument } from "pdf-lib";
+
+export type PdfChunk = {
+  startPage: number; // 1-based page in the original document, inclusive
+  endPage: number; // inclusive
+  file: File;
+};
+
+export const isPdfFile = (file: File) =>
+  file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+export async function getPdfPageCount(file: File): Promise<number> {
+  const pdf = await PDFDocument.load(await file.arrayBuffer(), {
+    ignoreEncryption: true,
+  });
+  return pdf.getPageCount();
+}
+
+// Splits a PDF into page ranges of `pagesPerChunk` pages. Consecutive chunks
+// share `overlap` pages so a table row broken across a page boundary is seen
+// whole in at least one chunk; callers dedupe the rows found twice.
+export async function splitPdfIntoChunks(
+  file: File,
+  pagesPerChunk: number,
+  overlap = 1,
+): Promise<PdfChunk[]> {
+  const source = await PDFDocument.load(await file.arrayBuffer(), {
+    ignoreEncryption: true,
+  });
+  const pageCount = source.getPageCount();
+  const step = Math.max(1, pagesPerChunk - overlap);
+  const baseName = file.name.replace(/\.pdf$/i, "");
+
+  const chunks: PdfChunk[] = [];
+  for (let start = 0; start < pageCount; start += step) {
+    const end = Math.min(start + pagesPerChunk, pageCount);
+
+    const chunkDoc = await PDFDocument.create();
+    const pageIndices = Array.from(
+      { length: end - start },
+      (_, i) => start + i,
+    );
+    const pages = await chunkDoc.copyPages(source, pageIndices);
+    pages.forEach((page) => chunkDoc.addPage(page));
+    const bytes = await chunkDoc.save();
+
+    chunks.push({
+      startPage: start + 1,
+      endPage: end,
+      file: new File(
+        [bytes as BlobPart],
+        `${baseName}_p${start + 1}-${end}.pdf`,
+        { type: "application/pdf" },
+      ),
+    });
+
+    if (end === pageCount) break;
+  }
+  return chunks;
+}
+
+// pdf.js is only needed in the browser, so it is loaded on first use rather
+// than pulled into the server render
+const loadPdfJs = async () => {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    const { default: workerUrl } =
+      await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  }
+  return pdfjs;
+};
+
+type PdfDocument = Awaited<
+  ReturnType<typeof import("pdfjs-dist").getDocument>["promise"]
+>;
+
+const documentCache = new WeakMap<File, Promise<PdfDocument>>();
+
+// Parsed documents are kept per File so verification and the citation
+// preview don't parse the same PDF over and over
+export function getPdfDocument(file: File): Promise<PdfDocument> {
+  let pdf = documentCache.get(file);
+  if (!pdf) {
+    pdf = (async () => {
+      const pdfjs = await loadPdfJs();
+      return pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    })();
+    // Don't keep a failed parse around; a retry should try again
+    pdf.catch(() => documentCache.delete(file));
+    documentCache.set(file, pdf);
+  }
+  return pdf;
+}
+
+export type PdfTextItem = {
+  text: string;
+  endsLine: boolean;
+  // Bounding box in PDF user space: [x1, y1, x2, y2]
+  rect: [number, number, number, number];
+};
+
+export async function getPdfPageTextItems(
+  file: File,
+  pageNumber: number,
+): Promise<PdfTextItem[]> {
+  const pdf = await getPdfDocument(file);
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return content.items.flatMap((item) => {
+    if (!("str" in item)) return [];
+    const [, , , , x, y] = item.transform;
+    return [
+      {
+        text: item.str,
+        endsLine: item.hasEOL,
+        rect: [x, y, x + item.width, y + item.height],
+      },
+    ];
+  });
+}
+
+// Returns the text layer of every page (index 0 = page 1). Scanned PDFs
+// without a text layer come back as empty strings.
+export async function getPdfPageTexts(file: File): Promise<string[]> {
+  const pdf = await getPdfDocument(file);
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const items = await getPdfPageTextItems(file, i);
+    pages.push(
+      items.map((item) => item.text + (item.endsLine ? "\n" : " ")).join(""),
+    );
+  }
+  return pages;
+}
@@ -0,0 +1,222 @@
+import type { QuoteOffer } from "./aiQuotingUtils";
+import {
+  detectBomColumns,
+  normalizePartNumber,
+  type BomColumns,
+} from "./bomColumnUtils";
+import {
+  convertMoney,
+  isMoney,
+  money,
+  type ExchangeRates,
+  type Money,
+} from "./currencyUtils";
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+} from "./indexedDbUtils";
+import { parseQuantity } from "./orderUtils";
+import { quoteColumnHeaders, type QuotingConfig } from "./quotingConfigUtils";
+
+// Every accepted quote and exported order, kept across sessions so a part
+// priced in an earlier project isn't researched from scratch.
+
+export type PriceHistoryKind = "quote" | "order";
+
+export type PriceHistoryEntry = {
+  part: string; // Normalized part number, the match key
+  partNumber: string; // As written in the BOM
+  manufacturer: string;
+  kind: PriceHistoryKind;
+  netPricePerUnit: Money; // Net, so quotes made gross and net compare
+  quantity: number | null; // Ordered pieces; null for quotes
+  supplier: string;
+  project: string; // The BOM's file name
+  recordedAt: number;
+};
+
+export type PriceTrend = "up" | "down" | "flat";
+
+export type PartHistorySummary = {
+  lastQuoted?: PriceHistoryEntry;
+  lastPaid?: PriceHistoryEntry;
+  trend: PriceTrend | null; // Latest price against the one before
+  change: number | null; // Relative, e.g. 0.12 for +12%
+};
+
+const STORE = "priceHistory";
+// Below this a price counts as unchanged
+const TREND_THRESHOLD = 0.01;
+
+// Keys start with the part so one part's entries are a key range. Every
+// quote is kept, keyed by when it was quoted, so picking another offer from
+// the same quote replaces it; an order once per project, the last export.
+const historyKey = (entry: PriceHistoryEntry) =>
+  entry.kind === "quote"
+    ? [entry.part, entry.kind, entry.recordedAt, entry.project].join("|")
+    : [entry.part, entry.kind, entry.project].join("|");
+
+const toNet = (price: Money, config: QuotingConfig) =>
+  config.priceBasis === "gross"
+    ? money(price.amount / (1 + config.vatRate / 100), price.currency, 4)
+    : price;
+
+const rowPart = (row: unknown[], { partNumber, manufacturer }: BomColumns) => {
+  if (partNumber === -1) return null;
+  const part = normalizePartNumber(row[partNumber]);
+  if (!part) return null;
+  return {
+    part,
+    partNumber: String(row[partNumber]).trim(),
+    manufacturer:
+      manufacturer === -1 ? "" : String(row[manufacturer] ?? "").trim(),
+  };
+};
+
+// The normalized part number of every row that has one
+export const bomParts = (data: unknown[][]) => {
+  const cols = detectBomColumns(data[0] ?? []);
+  return data.map((row, i) =>
+    i === 0 ? null : (rowPart(row, cols)?.part ?? null),
+  );
+};
+
+export function quoteHistoryEntry(
+  row: unknown[],
+  headers: unknown[],
+  offer: QuoteOffer | undefined,
+  quotedAt: number,
+  project: string,
+  config: QuotingConfig,
+): PriceHistoryEntry | null {
+  const part = rowPart(row, detectBomColumns(headers));
+  if (!part || !offer?.pricePerUnit) return null;
+  return {
+    ...part,
+    kind: "quote",
+    netPricePerUnit: toNet(offer.pricePerUnit, config),
+    quantity: null,
+    supplier: offer.supplier,
+    project,
+    recordedAt: quotedAt,
+  };
+}
+
+// The priced rows of an exported BOM, at the unit price its order
+// quantity reached. One entry per part; rows of the same part add up.
+export function orderHistoryEntries(
+  data: unknown[][],
+  suppliers: Record<number, string>,
+  project: string,
+  config: QuotingConfig,
+): PriceHistoryEntry[] {
+  const headers = (data[0] ?? []).map((h) => String(h ?? "").trim());
+  const labels = quoteColumnHeaders(config);
+  const unitCol = headers.indexOf(labels.unit);
+  const orderQtyCol = headers.indexOf(labels.orderQty);
+  if (unitCol === -1) return [];
+  const cols = detectBomColumns(headers);
+  const recordedAt = Date.now();
+  const byPart = new Map<string, PriceHistoryEntry>();
+  data.slice(1).forEach((row, i) => {
+    const part = rowPart(row, cols);
+    const price = row[unitCol];
+    if (!part || !isMoney(price)) return;
+    const quantity =
+      orderQtyCol === -1 ? null : parseQuantity(row[orderQtyCol]);
+    const earlier = byPart.get(part.part);
+    if (earlier) {
+      earlier.quantity =
+        earlier.quantity === null || quantity === null
+          ? (earlier.quantity ?? quantity)
+          : earlier.quantity + quantity;
+      return;
+    }
+    byPart.set(part.part, {
+      ...part,
+      kind: "order",
+      netPricePerUnit: toNet(price, config),
+      quantity,
+      supplier: suppliers[i + 1] ?? "",
+      project,
+      recordedAt,
+    });
+  });
+  return [...byPart.values()];
+}
+
+export async function recordPriceHistory(
+  entries: PriceHistoryEntry[],
+): Promise<void> {
+  if (!isIndexedDbAvailable() || entries.length === 0) return;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, "readwrite");
+    entries.forEach((entry) =>
+      tx.objectStore(STORE).put(entry, historyKey(entry)),
+    );
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn("Failed to record price history", err);
+  }
+}
+
+// Every recorded entry for the given parts, oldest first
+export async function getPriceHistory(
+  parts: string[],
+): Promise<Record<string, PriceHistoryEntry[]>> {
+  const history: Record<string, PriceHistoryEntry[]> = {};
+  const unique = [...new Set(parts)];
+  if (!isIndexedDbAvailable() || unique.length === 0) return history;
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const results = await Promise.all(
+      unique.map(
+        (part) =>
+          promisifyRequest(
+            store.getAll(IDBKeyRange.bound(`${part}|`, `${part}|\uffff`)),
+          ) as Promise<PriceHistoryEntry[]>,
+      ),
+    );
+    results.forEach((entries, i) => {
+      if (entries.length === 0) return;
+      history[unique[i]] = entries.sort((a, b) => a.recordedAt - b.recordedAt);
+    });
+  } catch (err) {
+    console.warn("Price history unavailable", err);
+  }
+  return history;
+}
+
+// Prices compared in `currency`; entries without a rate are left out
+export function summarizePartHistory(
+  entries: PriceHistoryEntry[],
+  currency: string,
+  rates: ExchangeRates,
+): PartHistorySummary {
+  const latest = (kind: PriceHistoryKind) =>
+    [...entries].reverse().find((entry) => entry.kind === kind);
+  const prices = entries.flatMap((entry) => {
+    const price = convertMoney(entry.netPricePerUnit, currency, rates);
+    return price ? [price.amount] : [];
+  });
+  const [previous, last] = prices.slice(-2);
+  const change =
+    prices.length >= 2 && previous > 0 ? (last - previous) / previous : null;
+  return {
+    lastQuoted: latest("quote"),
+    lastPaid: latest("order"),
+    trend:
+      change === null
+        ? null
+        : change > TREND_THRESHOLD
+          ? "up"
+          : change < -TREND_THRESHOLD
+            ? "down"
+            : "flat",
+    change,
+  };
+}
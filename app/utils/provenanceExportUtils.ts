@@ -0,0 +1,164 @@
+import * as XLSX from "xlsx";
+import type { ExtractionCitation } from "./aiExtractionUtils";
+import {
+  CITATION_STATUS_LABELS,
+  type CitationVerification,
+} from "./citationUtils";
+import {
+  locateGridCells,
+  patchWorkbook,
+  sheetsToWorkbook,
+  writeStyledWorkbook,
+  writtenRowNumber,
+  type SheetCellStyles,
+  type SourceWorkbook,
+  type WorkbookSheet,
+} from "./excelUtils";
+
+export type ProvenanceSource = {
+  fileName: string;
+  citation: ExtractionCitation;
+  verification?: CitationVerification;
+  fill?: string; // RRGGBB of the source's cells, repeated in the Sources sheet
+};
+
+// The sheets written next to the "Sources" sheet
+export type ProvenanceWorkbook = {
+  sheets: WorkbookSheet[]; // Every sheet, with the grid's edits
+  gridSheetNames: string[]; // The sheet(s) shown in the grid
+  source: SourceWorkbook | null; // Patched in place when given
+};
+
+// Where a grid row was written: its sheet and 1-based row number
+type RowLocation = { sheet: string; row: number };
+
+const SOURCES_HEADERS = [
+  "Sheet",
+  "Row",
+  "Source",
+  "Citation Type",
+  "Page / Location",
+  "Quote / Reasoning",
+  "URL",
+  "Retrieved",
+  "Verification",
+];
+
+const describeLocation = (citation: ExtractionCitation) => {
+  if (citation.type === "document") return `Page ${citation.page}`;
+  if (citation.type === "spreadsheet") return citation.location;
+  return citation.endpoint;
+};
+
+const sortByRow = (sources: Record<number, ProvenanceSource>) =>
+  Object.entries(sources)
+    .map(([rowIndex, source]) => ({ rowIndex: Number(rowIndex), source }))
+    .sort((a, b) => a.rowIndex - b.rowIndex);
+
+// One line per cited row, at the sheet and row it was written to
+export function buildSourcesRows(
+  sources: Record<number, ProvenanceSource>,
+  locateRow: (rowIndex: number) => RowLocation = (rowIndex) => ({
+    sheet: "Sheet1",
+    row: rowIndex + 1,
+  }),
+): unknown[][] {
+  const rows = sortByRow(sources).map(
+    ({ rowIndex, source: { fileName, citation, verification } }) => [
+      locateRow(rowIndex).sheet,
+      locateRow(rowIndex).row,
+      fileName,
+      citation.type,
+      describeLocation(citation),
+      citation.type === "document" ? citation.quote : citation.reasoning,
+      // A link the search never returned isn't evidence; leave it out
+      citation.type === "api" && citation.urlGrounding !== "ungrounded"
+        ? (citation.url ?? "")
+        : "",
+      citation.type === "api" && citation.retrievedAt
+        ? `${new Date(citation.retrievedAt).toISOString()}${citation.model ? ` (${citation.model})` : ""}`
+        : "",
+      verification ? CITATION_STATUS_LABELS[verification.status] : "",
+    ],
+  );
+  return [SOURCES_HEADERS, ...rows];
+}
+
+const fillStyle = (rgb: string) => ({
+  fill: { patternType: "solid", fgColor: { rgb } },
+});
+
+// "Sources", or "Sources (2)" etc. if the workbook has a sheet of that name
+const sourcesSheetName = (workbook: XLSX.WorkBook) => {
+  let name = "Sources";
+  for (let n = 2; workbook.SheetNames.includes(name); n++) {
+    name = `Sources (${n})`;
+  }
+  return name;
+};
+
+// Exports every sheet with each grid cell filled in its source's color,
+// plus a "Sources" sheet with every row's citation. With a source workbook
+// the sheets are patched into it as in a "keep layout" export. Resolves
+// false when its rows no longer line up and a plain workbook was written.
+export async function saveProvenanceWorkbook(
+  data: unknown[][],
+  fileName: string,
+  cellFills: Record<string, string>, // "row-col" -> RRGGBB
+  sources: Record<number, ProvenanceSource>,
+  { sheets, gridSheetNames, source }: ProvenanceWorkbook,
+): Promise<boolean> {
+  const grid = locateGridCells(data, gridSheetNames);
+  const cellStyles: SheetCellStyles = {};
+  Object.entries(cellFills).forEach(([key, rgb]) => {
+    const [r, c] = key.split("-").map(Number);
+    const location = grid.rows[r];
+    const column = grid.column(c);
+    if (!location || column === null) return;
+    cellStyles[location.sheet] = {
+      ...cellStyles[location.sheet],
+      [`${location.row}-${column}`]: fillStyle(rgb),
+    };
+  });
+
+  const written =
+    sheets.length > 0
+      ? sheets
+      : [{ name: gridSheetNames[0] ?? "Sheet1", rows: data }];
+  const patched = source ? patchWorkbook(source, written, cellStyles) : null;
+  const workbook = patched ?? sheetsToWorkbook(written, cellStyles);
+
+  const sourcesSheet = XLSX.utils.aoa_to_sheet(
+    buildSourcesRows(sources, (rowIndex) => {
+      const { sheet, row } = grid.rows[rowIndex] ?? grid.rows[0];
+      return {
+        sheet,
+        row: writtenRowNumber(patched ? source : null, sheet, row),
+      };
+    }),
+  );
+  sortByRow(sources).forEach(({ source }, i) => {
+    const cell = sourcesSheet[XLSX.utils.encode_cell({ r: i + 1, c: 2 })];
+    if (cell && source.fill) cell.s = fillStyle(source.fill);
+  });
+  sourcesSheet["!cols"] = [
+    { wch: 16 },
+    { wch: 6 },
+    { wch: 30 },
+    { wch: 14 },
+    { wch: 18 },
+    { wch: 60 },
+    { wch: 40 },
+    { wch: 34 },
+    { wch: 24 },
+  ];
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sourcesSheet,
+    sourcesSheetName(workbook),
+  );
+
+  const nameWithoutExtension = fileName.replace(/\.(xlsx|csv|xls)$/, "");
+  await writeStyledWorkbook(workbook, `${nameWithoutExtension}.xlsx`);
+  return !source || !!patched;
+}
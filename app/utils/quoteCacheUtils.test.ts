@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { quoteCacheKey } from "./quoteCacheUtils";
+import { DEFAULT_QUOTING_CONFIG, presetConfig } from "./quotingConfigUtils";
+
+const HEADERS = ["Part Number", "Manufacturer", "Qty"];
+const ROW = ["ne555p ", "TI", 10];
+
+describe("quoteCacheKey", () => {
+  it("is the same for the same part and config", () => {
+    const key = quoteCacheKey(ROW, HEADERS, DEFAULT_QUOTING_CONFIG);
+    expect(key).not.toBeNull();
+    expect(
+      quoteCacheKey(["NE555P", "ti", 3], HEADERS, DEFAULT_QUOTING_CONFIG),
+    ).toBe(key);
+  });
+
+  it("skips rows without a part number", () => {
+    expect(
+      quoteCacheKey(["", "TI", 1], HEADERS, DEFAULT_QUOTING_CONFIG),
+    ).toBeNull();
+    expect(
+      quoteCacheKey(ROW, ["Description", "Qty"], DEFAULT_QUOTING_CONFIG),
+    ).toBeNull();
+  });
+
+  it("changes with the preferred shops and the VAT rate", () => {
+    const key = quoteCacheKey(ROW, HEADERS, DEFAULT_QUOTING_CONFIG);
+    const otherShops = {
+      ...DEFAULT_QUOTING_CONFIG,
+      suppliers: ["mouser.de"],
+    };
+    const reordered = {
+      ...DEFAULT_QUOTING_CONFIG,
+      suppliers: [...DEFAULT_QUOTING_CONFIG.suppliers].reverse(),
+    };
+    const otherVat = { ...DEFAULT_QUOTING_CONFIG, vatRate: 7 };
+    expect(quoteCacheKey(ROW, HEADERS, otherShops)).not.toBe(key);
+    expect(quoteCacheKey(ROW, HEADERS, reordered)).not.toBe(key);
+    expect(quoteCacheKey(ROW, HEADERS, otherVat)).not.toBe(key);
+  });
+
+  it("changes with the market", () => {
+    expect(quoteCacheKey(ROW, HEADERS, presetConfig("AT"))).not.toBe(
+      quoteCacheKey(ROW, HEADERS, DEFAULT_QUOTING_CONFIG),
+    );
+  });
+});
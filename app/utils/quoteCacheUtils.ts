@@ -0,0 +1,112 @@
+import type { QuotedRow } from "./aiQuotingUtils";
+import { detectBomColumns, normalizePartNumber } from "./bomColumnUtils";
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+} from "./indexedDbUtils";
+import type { QuotingConfig } from "./quotingConfigUtils";
+
+export type CachedQuote = Omit<QuotedRow, "rowId"> & {
+  cachedAt: number;
+};
+
+const STORE = "quotes";
+// Bumped when the shape of a quote changes, so old entries are never read
+const KEY_VERSION = "v4";
+
+// Same part and manufacturer, quoted for the same market, shops, VAT rate
+// and price basis. Rows without a recognisable part number aren't cached.
+export function quoteCacheKey(
+  row: unknown[],
+  headers: unknown[],
+  config: QuotingConfig,
+): string | null {
+  const { partNumber, manufacturer } = detectBomColumns(headers);
+  if (partNumber === -1) return null;
+  const part = normalizePartNumber(row[partNumber]);
+  if (!part) return null;
+  const maker =
+    manufacturer === -1 ? "" : normalizePartNumber(row[manufacturer]);
+  return [
+    KEY_VERSION,
+    config.market,
+    config.currency,
+    config.priceBasis,
+    config.vatRate,
+    config.suppliers.map((s) => s.trim().toLowerCase()).join(","),
+    part,
+    maker,
+  ].join("|");
+}
+
+// Entries older than the TTL count as misses. A TTL of 0 disables the cache.
+export async function getCachedQuotes(
+  keys: string[],
+  ttlHours: number,
+): Promise<Map<string, CachedQuote>> {
+  const hits = new Map<string, CachedQuote>();
+  if (!isIndexedDbAvailable() || ttlHours <= 0 || keys.length === 0) {
+    return hits;
+  }
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const oldest = Date.now() - ttlHours * 60 * 60 * 1000;
+    const entries = await Promise.all(
+      keys.map(
+        (key) =>
+          promisifyRequest(store.get(key)) as Promise<CachedQuote | undefined>,
+      ),
+    );
+    entries.forEach((entry, i) => {
+      if (entry && entry.cachedAt >= oldest) hits.set(keys[i], entry);
+    });
+  } catch (err) {
+    console.warn("Quote cache unavailable", err);
+  }
+  return hits;
+}
+
+export async function putCachedQuotes(
+  entries: { key: string; quote: QuotedRow }[],
+): Promise<void> {
+  if (!isIndexedDbAvailable() || entries.length === 0) return;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, "readwrite");
+    const cachedAt = Date.now();
+    entries.forEach(({ key, quote }) =>
+      tx.objectStore(STORE).put({ ...quote, cachedAt }, key),
+    );
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn("Failed to cache quotes", err);
+  }
+}
+
+export async function clearQuoteCache(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
+
+// Past the validity window; a window of 0 never expires
+export const isQuoteStale = (
+  quotedAt: number,
+  validityDays: number,
+  now = Date.now(),
+) => validityDays > 0 && now - quotedAt > validityDays * 24 * 60 * 60 * 1000;
+
+// "3h old", "2d old", "just now"
+export function formatQuoteAge(cachedAt: number, now = Date.now()): string {
+  const minutes = Math.floor((now - cachedAt) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m old`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h old`;
+  return `${Math.floor(hours / 24)}d old`;
+}
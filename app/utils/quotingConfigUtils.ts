@@ -0,0 +1,169 @@
+import { DEFAULT_EXCHANGE_RATES, type ExchangeRates } from "./currencyUtils";
+
+export type PriceBasis = "net" | "gross";
+
+// Supplier catalogs are always tried first; this decides what happens to
+// the rows they don't have
+export type SupplierLookup = "before-search" | "instead-of-search";
+
+// An HTTP supplier API (see suppliers/httpAdapter.ts)
+export type SupplierApi = {
+  label: string;
+  baseUrl: string;
+};
+
+export type MarketCode = "DE" | "AT" | "CH" | "UK";
+
+// Where and how to quote. Prices are always written in `priceBasis`; quotes
+// found on the other basis are converted with `vatRate`.
+export type QuotingConfig = {
+  market: MarketCode;
+  suppliers: string[]; // Preferred shops, most preferred first
+  language: string; // Language of search queries and delivery texts
+  currency: string; // ISO 4217
+  vatRate: number; // Percent, e.g. 19
+  priceBasis: PriceBasis;
+  cacheTtlHours: number; // How long a quote is reused; 0 = always search
+  quoteValidityDays: number; // Older quotes are marked stale
+  displayCurrency: string; // Prices are shown and exported in this currency
+  exchangeRates: ExchangeRates;
+  supplierApis: SupplierApi[];
+  supplierLookup: SupplierLookup;
+};
+
+// Settings that don't depend on the market
+type MarketIndependent = Pick<
+  QuotingConfig,
+  | "priceBasis"
+  | "cacheTtlHours"
+  | "quoteValidityDays"
+  | "displayCurrency"
+  | "exchangeRates"
+  | "supplierApis"
+  | "supplierLookup"
+>;
+
+type MarketPreset = Omit<QuotingConfig, "market" | keyof MarketIndependent> & {
+  country: string;
+};
+
+export const MARKET_PRESETS: Record<MarketCode, MarketPreset> = {
+  DE: {
+    country: "Germany",
+    suppliers: ["conrad.de", "voelkner.de", "reichelt.de"],
+    language: "German",
+    currency: "EUR",
+    vatRate: 19,
+  },
+  AT: {
+    country: "Austria",
+    suppliers: ["conrad.at", "distrelec.at", "reichelt.at"],
+    language: "German",
+    currency: "EUR",
+    vatRate: 20,
+  },
+  CH: {
+    country: "Switzerland",
+    suppliers: ["conrad.ch", "distrelec.ch", "digitec.ch"],
+    language: "German",
+    currency: "CHF",
+    vatRate: 8.1,
+  },
+  UK: {
+    country: "United Kingdom",
+    suppliers: ["uk.farnell.com", "uk.rs-online.com", "cpc.farnell.com"],
+    language: "English",
+    currency: "GBP",
+    vatRate: 20,
+  },
+};
+
+// Starting point when switching markets; price basis, cache and currency
+// display are kept
+export const presetConfig = (
+  market: MarketCode,
+  {
+    priceBasis,
+    cacheTtlHours,
+    quoteValidityDays,
+    displayCurrency,
+    exchangeRates,
+    supplierApis,
+    supplierLookup,
+  }: MarketIndependent = {
+    priceBasis: "net",
+    cacheTtlHours: 24,
+    quoteValidityDays: 7,
+    displayCurrency: "EUR",
+    exchangeRates: DEFAULT_EXCHANGE_RATES,
+    supplierApis: [],
+    supplierLookup: "before-search",
+  },
+): QuotingConfig => {
+  const { suppliers, language, currency, vatRate } = MARKET_PRESETS[market];
+  return {
+    market,
+    suppliers: [...suppliers],
+    language,
+    currency,
+    vatRate,
+    priceBasis,
+    cacheTtlHours,
+    quoteValidityDays,
+    displayCurrency,
+    exchangeRates,
+    supplierApis,
+    supplierLookup,
+  };
+};
+
+export const DEFAULT_QUOTING_CONFIG = presetConfig("DE");
+
+const STORAGE_KEY = "excel-editor.quoting-config";
+
+export function loadQuotingConfig(): QuotingConfig {
+  if (typeof window === "undefined") return DEFAULT_QUOTING_CONFIG;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!stored || !(stored.market in MARKET_PRESETS)) {
+      return DEFAULT_QUOTING_CONFIG;
+    }
+    return { ...DEFAULT_QUOTING_CONFIG, ...stored };
+  } catch {
+    return DEFAULT_QUOTING_CONFIG;
+  }
+}
+
+export const saveQuotingConfig = (config: QuotingConfig) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+// Column headers the quote is written into; "Net Price" or "Gross Price"
+// depending on the configured basis
+export const quoteColumnHeaders = (config: QuotingConfig) => ({
+  total: config.priceBasis === "net" ? "Net Price" : "Gross Price",
+  unit: "Price/Unit",
+  delivery: "Est. Delivery",
+  packs: "Packs",
+  orderQty: "Order Qty",
+  lineTotal: "Line Total",
+});
+
+const round = (value: number, decimals: number) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Converts a price found on a shop page to the configured basis
+export function toPriceBasis(
+  amount: number,
+  includesVat: boolean,
+  config: QuotingConfig,
+  decimals = 2,
+): number {
+  const factor = 1 + config.vatRate / 100;
+  if (includesVat && config.priceBasis === "net") {
+    return round(amount / factor, decimals);
+  }
+  if (!includesVat && config.priceBasis === "gross") {
+    return round(amount * factor, decimals);
+  }
+  return amount;
+}
@@ -0,0 +1,209 @@
+import type {
+  ExtractedRowWithSource,
+  ExtractionResult,
+} from "./aiExtractionUtils";
+import { proposeColumnMapping } from "./aiMappingUtils";
+import { cellRange, parseSheet, type ParsedSheet } from "./excelUtils";
+import type { LlmError } from "./llm/errors";
+import {
+  applyMappingProfile,
+  findMappingProfile,
+  type MappingProfile,
+} from "./mappingProfileUtils";
+
+// For each target header, the index of the reference column that feeds it
+// (null = left blank)
+export type ColumnMapping = (number | null)[];
+
+export const isSpreadsheetFile = (file: File) =>
+  /\.(csv|tsv|xlsx|xlsm|xls|ods|numbers)$/i.test(file.name);
+
+const normalizeHeader = (header: unknown) =>
+  String(header ?? "")
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, "");
+  const pairs = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.add(compact.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+// 1 for identical headers, 0.9 when one contains the other ("Qty" in
+// "Qty per board"), otherwise the Dice coefficient of their letter pairs
+export function headerSimilarity(a: unknown, b: unknown) {
+  const left = normalizeHeader(a);
+  const right = normalizeHeader(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.size === 0 || rightPairs.size === 0) return 0;
+  const shared = [...leftPairs].filter((p) => rightPairs.has(p)).length;
+  return (2 * shared) / (leftPairs.size + rightPairs.size);
+}
+
+const MIN_HEADER_SIMILARITY = 0.6;
+
+// Pairs target and source headers best match first, each source used once
+export function guessColumnMapping(
+  targetHeaders: unknown[],
+  sourceHeaders: unknown[],
+): ColumnMapping {
+  const candidates = targetHeaders.flatMap((target, t) =>
+    sourceHeaders.map((source, s) => ({
+      t,
+      s,
+      score: headerSimilarity(target, source),
+    })),
+  );
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = targetHeaders.map(() => null);
+  const usedSources = new Set<number>();
+  candidates.forEach(({ t, s, score }) => {
+    if (score < MIN_HEADER_SIMILARITY) return;
+    if (mapping[t] !== null || usedSources.has(s)) return;
+    mapping[t] = s;
+    usedSources.add(s);
+  });
+  return mapping;
+}
+
+// Turns every body row of the sheet into a row for the target headers. Each
+// row cites the exact cells it was read from, e.g. "Parts!B5:E5".
+export function mapSheetRows(
+  sheet: ParsedSheet,
+  targetHeaders: unknown[],
+  mapping: ColumnMapping,
+): ExtractedRowWithSource[] {
+  const [sourceHeaders = [], ...body] = sheet.rows;
+  const mappedColumns = mapping.filter((s): s is number => s !== null);
+  if (mappedColumns.length === 0) return [];
+
+  const sheetColumns = mappedColumns.map((s) => sheet.columnIndices[s]);
+  const firstColumn = Math.min(...sheetColumns);
+  const lastColumn = Math.max(...sheetColumns);
+  const reasoning = `Imported without AI. ${mapping
+    .map((s, t) =>
+      s === null
+        ? null
+        : `${String(targetHeaders[t] ?? "")} ← ${String(sourceHeaders[s] ?? "")}`,
+    )
+    .filter(Boolean)
+    .join(", ")}`;
+
+  return body.flatMap((row, i) => {
+    const data = mapping.map((s) =>
+      s === null ? "" : String(row[s] ?? "").trim(),
+    );
+    if (data.every((value) => value === "")) return [];
+    return [
+      {
+        data,
+        citation: {
+          type: "spreadsheet" as const,
+          location: cellRange(
+            sheet.sheetName,
+            sheet.rowNumbers[i + 1] - 1,
+            firstColumn,
+            lastColumn,
+          ),
+          reasoning,
+        },
+      },
+    ];
+  });
+}
+
+type MappingAssist = {
+  startModel: string;
+  availableModels: string[];
+  onRetry?: (failedModel: string, nextModel: string, reason: LlmError) => void;
+};
+
+// A parsed reference with a suggested mapping, ready for the user to review
+export type SpreadsheetImportPlan = {
+  sheet: ParsedSheet;
+  mapping: ColumnMapping;
+  profile?: MappingProfile; // Saved profile the mapping came from
+  finalModel: string;
+};
+
+// Reads a CSV/XLSX reference locally and suggests how its columns map onto
+// the main sheet's headers: a saved profile for this layout wins, otherwise
+// headers are matched by name. When `ai` is given and some headers found no
+// match, the model is asked for the mapping only; the data never goes through it.
+export async function planSpreadsheetImport(
+  file: File,
+  currentHeaders: unknown[],
+  profiles: MappingProfile[],
+  ai?: MappingAssist,
+): Promise<SpreadsheetImportPlan> {
+  const sheet = await parseSheet(file);
+  if (sheet.rows.length < 2) {
+    throw new Error(`${file.name} has no rows below its header.`);
+  }
+  const sourceHeaders = sheet.rows[0];
+  let finalModel = ai?.startModel ?? "";
+
+  const profile = findMappingProfile(profiles, sourceHeaders);
+  if (profile) {
+    return {
+      sheet,
+      mapping: applyMappingProfile(profile, currentHeaders, sourceHeaders),
+      profile,
+      finalModel,
+    };
+  }
+
+  let mapping = guessColumnMapping(currentHeaders, sourceHeaders);
+  if (ai && mapping.some((s) => s === null)) {
+    try {
+      const proposal = await proposeColumnMapping(
+        currentHeaders,
+        sheet.rows,
+        ai.startModel,
+        ai.availableModels,
+        ai.onRetry,
+        file.name,
+      );
+      finalModel = proposal.finalModel;
+      // Keep confident name matches, let the model fill the gaps
+      const used = new Set(mapping.filter((s) => s !== null));
+      mapping = mapping.map((s, t) => {
+        const proposed = proposal.mapping[t];
+        if (s !== null || proposed === null || used.has(proposed)) return s;
+        used.add(proposed);
+        return proposed;
+      });
+    } catch (err) {
+      console.warn("AI column mapping failed, using header matches", err);
+    }
+  }
+
+  return { sheet, mapping, finalModel };
+}
+
+export function buildSpreadsheetImport(
+  plan: SpreadsheetImportPlan,
+  currentHeaders: unknown[],
+  mapping: ColumnMapping,
+): ExtractionResult {
+  if (mapping.every((s) => s === null)) {
+    throw new Error("No columns are mapped onto the sheet's headers.");
+  }
+  return {
+    rows: mapSheetRows(plan.sheet, currentHeaders, mapping),
+    invalidRows: [],
+    failedChunks: [],
+    finalModel: plan.finalModel,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { money } from "../currencyUtils";
+import { parseBmecat } from "./bmecatParser";
+
+const catalog = (articles: string, header = "") => `<?xml version="1.0"?>
+<BMECAT version="2005" xmlns="http://www.bmecat.org/bmecat/2005">
+  <HEADER>${header}</HEADER>
+  <T_NEW_CATALOG>${articles}</T_NEW_CATALOG>
+</BMECAT>`;
+
+const NOW = new Date("2026-06-01");
+
+describe("parseBmecat", () => {
+  it("reads BMEcat 2005 products with price tiers per piece", () => {
+    const xml = catalog(
+      `<PRODUCT>
+        <SUPPLIER_PID>A-100</SUPPLIER_PID>
+        <PRODUCT_DETAILS>
+          <DESCRIPTION_SHORT>Resistor 10k</DESCRIPTION_SHORT>
+          <INTERNATIONAL_PID type="gtin">4012345678901</INTERNATIONAL_PID>
+          <MANUFACTURER_PID>RC0603FR-0710KL</MANUFACTURER_PID>
+          <MANUFACTURER_NAME>Yageo</MANUFACTURER_NAME>
+          <DELIVERY_TIME>3</DELIVERY_TIME>
+        </PRODUCT_DETAILS>
+        <PRODUCT_ORDER_DETAILS>
+          <NO_CU_PER_OU>10</NO_CU_PER_OU>
+          <PRICE_QUANTITY>1</PRICE_QUANTITY>
+        </PRODUCT_ORDER_DETAILS>
+        <PRODUCT_PRICE_DETAILS>
+          <PRODUCT_PRICE price_type="net_list">
+            <PRICE_AMOUNT>5.00</PRICE_AMOUNT>
+          </PRODUCT_PRICE>
+          <PRODUCT_PRICE price_type="net_customer">
+            <PRICE_AMOUNT>4.00</PRICE_AMOUNT>
+            <LOWER_BOUND>1</LOWER_BOUND>
+          </PRODUCT_PRICE>
+          <PRODUCT_PRICE price_type="net_customer">
+            <PRICE_AMOUNT>3.00</PRICE_AMOUNT>
+            <LOWER_BOUND>10</LOWER_BOUND>
+          </PRODUCT_PRICE>
+        </PRODUCT_PRICE_DETAILS>
+      </PRODUCT>`,
+      `<SUPPLIER><SUPPLIER_NAME>Parts GmbH</SUPPLIER_NAME></SUPPLIER>
+       <CATALOG><CURRENCY>EUR</CURRENCY></CATALOG>`,
+    );
+    const { supplier, entries } = parseBmecat(xml, "parts.xml", "USD", NOW);
+
+    expect(supplier).toBe("Parts GmbH");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].article).toEqual({
+      articleNumber: "A-100",
+      partNumber: "RC0603FR-0710KL",
+      ean: "4012345678901",
+      manufacturer: "Yageo",
+      description: "Resistor 10k",
+    });
+    expect(entries[0].offer).toEqual({
+      unitPrice: money(0.4, "EUR", 4),
+      pricesIncludeVat: false,
+      packQuantity: 10,
+      priceBreaks: [{ minQuantity: 100, unitPrice: money(0.3, "EUR", 4) }],
+      stock: null,
+      deliveryTime: "3 working days",
+    });
+  });
+
+  it("reads BMEcat 1.2 articles and marks gross prices", () => {
+    const xml = catalog(`<ARTICLE>
+      <SUPPLIER_AID>B-7</SUPPLIER_AID>
+      <ARTICLE_DETAILS><EAN>4000000000007</EAN></ARTICLE_DETAILS>
+      <ARTICLE_PRICE_DETAILS>
+        <ARTICLE_PRICE price_type="gros_list">
+          <PRICE_AMOUNT>11.90</PRICE_AMOUNT>
+          <PRICE_CURRENCY>CHF</PRICE_CURRENCY>
+        </ARTICLE_PRICE>
+      </ARTICLE_PRICE_DETAILS>
+    </ARTICLE>`);
+    const { supplier, entries } = parseBmecat(xml, "shop.xml", "EUR", NOW);
+
+    expect(supplier).toBe("shop");
+    expect(entries[0].article).toMatchObject({
+      articleNumber: "B-7",
+      partNumber: "B-7",
+      ean: "4000000000007",
+    });
+    expect(entries[0].offer.unitPrice).toEqual(money(11.9, "CHF", 4));
+    expect(entries[0].offer.pricesIncludeVat).toBe(true);
+  });
+
+  it("uses the price block valid today", () => {
+    const block = (start: string, amount: string) => `
+      <PRODUCT_PRICE_DETAILS>
+        <DATETIME type="valid_start_date"><DATE>${start}</DATE></DATETIME>
+        <PRODUCT_PRICE price_type="net_list">
+          <PRICE_AMOUNT>${amount}</PRICE_AMOUNT>
+        </PRODUCT_PRICE>
+      </PRODUCT_PRICE_DETAILS>`;
+    const xml = catalog(`<PRODUCT>
+      <SUPPLIER_PID>C-1</SUPPLIER_PID>
+      ${block("2027-01-01", "9.00")}
+      ${block("2026-01-01", "8.00")}
+    </PRODUCT>`);
+    const { entries } = parseBmecat(xml, "c.xml", "EUR", NOW);
+    expect(entries[0].offer.unitPrice.amount).toBe(8);
+  });
+
+  it("rejects files that aren't priced BMEcat catalogs", () => {
+    expect(() => parseBmecat("<BMECAT>", "a.xml", "EUR")).toThrow(
+      "a.xml is not valid XML.",
+    );
+    expect(() => parseBmecat("<CATALOG/>", "b.xml", "EUR")).toThrow(
+      "b.xml is not a BMEcat catalog.",
+    );
+    expect(() =>
+      parseBmecat(
+        catalog("<PRODUCT><SUPPLIER_PID>X</SUPPLIER_PID></PRODUCT>"),
+        "c.xml",
+        "EUR",
+      ),
+    ).toThrow("c.xml has no priced articles.");
+  });
+});
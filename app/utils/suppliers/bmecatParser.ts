@@ -0,0 +1,162 @@
+import { money } from "../currencyUtils";
+import type { CatalogEntry, SupplierPriceBreak } from "./types";
+
+// BMEcat 1.2 (ARTICLE, SUPPLIER_AID) and 2005 (PRODUCT, SUPPLIER_PID)
+// catalogs as sent by distributors, read in the browser with DOMParser.
+
+export type BmecatCatalog = {
+  supplier: string;
+  entries: CatalogEntry[];
+};
+
+// Customer-specific prices beat list prices. Gross list prices and
+// recommended retail prices include VAT.
+const PRICE_TYPES = ["net_customer", "net_list", "gros_list", "nrp"];
+const GROSS_PRICE_TYPES = ["gros_list", "nrp"];
+
+const all = (parent: Element | Document, name: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+const first = (parent: Element | Document, ...names: string[]) =>
+  names.map((name) => all(parent, name)[0]).find(Boolean);
+
+const textOf = (parent: Element | Document, ...names: string[]) =>
+  first(parent, ...names)?.textContent?.trim() ?? "";
+
+const numberOf = (parent: Element, name: string) => {
+  const n = Number(textOf(parent, name));
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// BMEcat 2005 moved the EAN into a typed INTERNATIONAL_PID
+const eanOf = (details: Element) =>
+  textOf(details, "EAN") ||
+  all(details, "INTERNATIONAL_PID")
+    .find((el) => /ean|gtin/i.test(el.getAttribute("type") ?? ""))
+    ?.textContent?.trim() ||
+  "";
+
+// The price block valid today; later blocks are other validity periods
+function currentPriceDetails(article: Element, now: Date) {
+  const blocks = all(article, "ARTICLE_PRICE_DETAILS").concat(
+    all(article, "PRODUCT_PRICE_DETAILS"),
+  );
+  const isCurrent = (block: Element) =>
+    all(block, "DATETIME").every((el) => {
+      const date = new Date(textOf(el, "DATE"));
+      if (Number.isNaN(date.getTime())) return true;
+      const type = el.getAttribute("type");
+      if (type === "valid_start_date") return date <= now;
+      if (type === "valid_end_date") return date >= now;
+      return true;
+    });
+  return blocks.find(isCurrent) ?? blocks[0];
+}
+
+function parseArticle(
+  article: Element,
+  currency: string,
+  now: Date,
+): CatalogEntry | null {
+  const articleNumber = textOf(article, "SUPPLIER_AID", "SUPPLIER_PID");
+  const details = first(article, "ARTICLE_DETAILS", "PRODUCT_DETAILS");
+  const order = first(
+    article,
+    "ARTICLE_ORDER_DETAILS",
+    "PRODUCT_ORDER_DETAILS",
+  );
+  const priceDetails = currentPriceDetails(article, now);
+  if (!articleNumber || !priceDetails) return null;
+
+  const prices = all(priceDetails, "ARTICLE_PRICE").concat(
+    all(priceDetails, "PRODUCT_PRICE"),
+  );
+  const priceType =
+    PRICE_TYPES.find((type) =>
+      prices.some((p) => p.getAttribute("price_type") === type),
+    ) ?? prices[0]?.getAttribute("price_type");
+  const ofType = prices.filter(
+    (p) => p.getAttribute("price_type") === priceType,
+  );
+
+  // Prices are per PRICE_QUANTITY order units of NO_CU_PER_OU pieces each
+  const piecesPerUnit = (order && numberOf(order, "NO_CU_PER_OU")) ?? 1;
+  const priceQuantity = (order && numberOf(order, "PRICE_QUANTITY")) ?? 1;
+  const tiers = ofType
+    .flatMap((price) => {
+      const amount = Number(textOf(price, "PRICE_AMOUNT"));
+      if (!Number.isFinite(amount) || amount <= 0) return [];
+      const lowerBound = numberOf(price, "LOWER_BOUND") ?? 1;
+      return [
+        {
+          minQuantity: Math.round(lowerBound * piecesPerUnit),
+          unitPrice: money(
+            amount / priceQuantity / piecesPerUnit,
+            textOf(price, "PRICE_CURRENCY") || currency,
+            4,
+          ),
+        },
+      ];
+    })
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+  if (tiers.length === 0) return null;
+
+  const [base, ...rest] = tiers;
+  const priceBreaks: SupplierPriceBreak[] = rest.filter(
+    (tier) => tier.minQuantity > piecesPerUnit,
+  );
+  const deliveryDays = details && numberOf(details, "DELIVERY_TIME");
+
+  return {
+    article: {
+      articleNumber,
+      partNumber:
+        (details && textOf(details, "MANUFACTURER_AID", "MANUFACTURER_PID")) ||
+        articleNumber,
+      ean: (details && eanOf(details)) || undefined,
+      manufacturer:
+        (details && textOf(details, "MANUFACTURER_NAME")) || undefined,
+      description:
+        (details && textOf(details, "DESCRIPTION_SHORT")) || undefined,
+    },
+    offer: {
+      unitPrice: base.unitPrice,
+      pricesIncludeVat: GROSS_PRICE_TYPES.includes(priceType ?? ""),
+      packQuantity: piecesPerUnit,
+      priceBreaks,
+      stock: null,
+      deliveryTime: deliveryDays ? `${deliveryDays} working days` : undefined,
+    },
+  };
+}
+
+export function parseBmecat(
+  xml: string,
+  fileName: string,
+  fallbackCurrency: string,
+  now = new Date(),
+): BmecatCatalog {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`${fileName} is not valid XML.`);
+  }
+  if (all(doc, "BMECAT").length === 0) {
+    throw new Error(`${fileName} is not a BMEcat catalog.`);
+  }
+  const header = first(doc, "HEADER");
+  const currency = (header && textOf(header, "CURRENCY")) || fallbackCurrency;
+  const articles = all(doc, "ARTICLE").concat(all(doc, "PRODUCT"));
+  const entries = articles.flatMap((article) => {
+    const entry = parseArticle(article, currency, now);
+    return entry ? [entry] : [];
+  });
+  if (entries.length === 0) {
+    throw new Error(`${fileName} has no priced articles.`);
+  }
+  return {
+    supplier:
+      (header && textOf(header, "SUPPLIER_NAME")) ||
+      fileName.replace(/\.[^.]+$/, ""),
+    entries,
+  };
+}
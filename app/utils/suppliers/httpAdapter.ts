@@ -0,0 +1,112 @@
+import { isMoney } from "../currencyUtils";
+import type {
+  SupplierAdapter,
+  SupplierArticle,
+  SupplierOffer,
+  SupplierPriceBreak,
+} from "./types";
+
+type HttpSupplierOptions = {
+  id: string;
+  label: string;
+  baseUrl: string; // e.g. http://localhost:5173/api/supplier-stub
+};
+
+// A supplier API speaking this app's small JSON protocol:
+//   GET {baseUrl}/search?partNumber=…&ean=…&manufacturer=…
+//     -> { "articles": SupplierArticle[] }
+//   GET {baseUrl}/offers/{articleNumber}
+//     -> SupplierOffer, or 404 when the article has no offer
+// Real supplier APIs are put behind a small proxy that translates to it.
+
+const str = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const parseArticle = (item: unknown): SupplierArticle | null => {
+  if (typeof item !== "object" || item === null) return null;
+  const a = item as Record<string, unknown>;
+  const articleNumber = str(a.articleNumber);
+  const partNumber = str(a.partNumber);
+  if (!articleNumber || !partNumber) return null;
+  return {
+    articleNumber,
+    partNumber,
+    ean: str(a.ean),
+    manufacturer: str(a.manufacturer),
+    description: str(a.description),
+    url: str(a.url),
+  };
+};
+
+const isPriceBreak = (tier: unknown): tier is SupplierPriceBreak => {
+  if (typeof tier !== "object" || tier === null) return false;
+  const t = tier as Record<string, unknown>;
+  return (
+    typeof t.minQuantity === "number" &&
+    Number.isInteger(t.minQuantity) &&
+    t.minQuantity > 0 &&
+    isMoney(t.unitPrice)
+  );
+};
+
+const parseOffer = (item: unknown): SupplierOffer | null => {
+  if (typeof item !== "object" || item === null) return null;
+  const o = item as Record<string, unknown>;
+  if (!isMoney(o.unitPrice) || typeof o.pricesIncludeVat !== "boolean") {
+    return null;
+  }
+  const packQuantity = Number(o.packQuantity ?? 1);
+  const priceBreaks = Array.isArray(o.priceBreaks)
+    ? (o.priceBreaks as unknown[]).filter(isPriceBreak)
+    : [];
+  return {
+    unitPrice: o.unitPrice,
+    pricesIncludeVat: o.pricesIncludeVat,
+    packQuantity: packQuantity > 0 ? packQuantity : 1,
+    priceBreaks: priceBreaks.sort((a, b) => a.minQuantity - b.minQuantity),
+    stock: typeof o.stock === "number" ? o.stock : null,
+    deliveryTime: str(o.deliveryTime),
+    url: str(o.url),
+  };
+};
+
+export function createHttpSupplierAdapter({
+  id,
+  label,
+  baseUrl,
+}: HttpSupplierOptions): SupplierAdapter {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const getJson = async (path: string, signal?: AbortSignal) => {
+    const response = await fetch(`${root}${path}`, {
+      headers: { Accept: "application/json" },
+      signal,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`${label} answered HTTP ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    id,
+    label,
+    search: async ({ partNumber, ean, manufacturer }, signal) => {
+      const params = new URLSearchParams({ partNumber });
+      if (ean) params.set("ean", ean);
+      if (manufacturer) params.set("manufacturer", manufacturer);
+      const body = await getJson(`/search?${params}`, signal);
+      const articles: unknown[] = Array.isArray(body?.articles)
+        ? body.articles
+        : [];
+      return articles
+        .map(parseArticle)
+        .filter((a): a is SupplierArticle => a !== null);
+    },
+    fetchOffer: async ({ articleNumber }, signal) =>
+      parseOffer(
+        await getJson(`/offers/${encodeURIComponent(articleNumber)}`, signal),
+      ),
+  };
+}
@@ -0,0 +1,167 @@
+import type { QuotedRow, QuoteOffer } from "../aiQuotingUtils";
+import { mapWithConcurrency } from "../asyncUtils";
+import { detectBomColumns, normalizePartNumber } from "../bomColumnUtils";
+import { money, type Money } from "../currencyUtils";
+import { toPriceBasis, type QuotingConfig } from "../quotingConfigUtils";
+import type {
+  SupplierAdapter,
+  SupplierArticle,
+  SupplierOffer,
+  SupplierQuery,
+} from "./types";
+
+const LOOKUP_CONCURRENCY = 4;
+
+// Only exact part number or EAN matches count; a catalog lookup that
+// guesses is no better than web search. A listed manufacturer must agree.
+function findExactArticle(
+  articles: SupplierArticle[],
+  query: SupplierQuery,
+): { article: SupplierArticle; matchedBy: "part number" | "EAN" } | null {
+  const part = normalizePartNumber(query.partNumber);
+  const ean = normalizePartNumber(query.ean);
+  const maker = normalizePartNumber(query.manufacturer);
+  const sameMaker = (article: SupplierArticle) => {
+    const other = normalizePartNumber(article.manufacturer);
+    return !maker || !other || other.includes(maker) || maker.includes(other);
+  };
+  const byEan = ean
+    ? articles.find((a) => normalizePartNumber(a.ean) === ean)
+    : undefined;
+  if (byEan) return { article: byEan, matchedBy: "EAN" };
+  const byPart = part
+    ? articles.find(
+        (a) =>
+          sameMaker(a) &&
+          (normalizePartNumber(a.partNumber) === part ||
+            normalizePartNumber(a.articleNumber) === part),
+      )
+    : undefined;
+  return byPart ? { article: byPart, matchedBy: "part number" } : null;
+}
+
+const describeStock = (stock: number | null) =>
+  stock === null ? "" : stock > 0 ? `In stock (${stock})` : "Out of stock";
+
+export function toQuoteOffer(
+  adapter: Pick<SupplierAdapter, "label" | "catalogFile">,
+  article: SupplierArticle,
+  offer: SupplierOffer,
+  config: QuotingConfig,
+  reasoning: string,
+): QuoteOffer {
+  // Converted to the configured basis like web quotes, but never guessed
+  const convert = (price: Money, decimals: number) =>
+    money(
+      toPriceBasis(price.amount, offer.pricesIncludeVat, config, decimals),
+      price.currency,
+      decimals,
+    );
+  return {
+    supplier: adapter.label,
+    totalPrice: convert(
+      {
+        amount: offer.unitPrice.amount * offer.packQuantity,
+        currency: offer.unitPrice.currency,
+      },
+      2,
+    ),
+    pricePerUnit: convert(offer.unitPrice, 4),
+    priceBasis: config.priceBasis,
+    estimatedDelivery: offer.deliveryTime ?? describeStock(offer.stock),
+    packQuantity: offer.packQuantity,
+    priceBreaks: offer.priceBreaks.map(({ minQuantity, unitPrice }) => ({
+      minQuantity,
+      pricePerUnit: convert(unitPrice, 4),
+    })),
+    stock: offer.stock,
+    sourceUrl: offer.url ?? article.url ?? "",
+    urlGrounding: "unchecked",
+    origin: "catalog",
+    catalogArticle: adapter.catalogFile
+      ? { file: adapter.catalogFile, articleNumber: article.articleNumber }
+      : undefined,
+    reasoning,
+  };
+}
+
+async function lookupRow(
+  query: SupplierQuery,
+  adapters: SupplierAdapter[],
+  config: QuotingConfig,
+  signal?: AbortSignal,
+): Promise<QuoteOffer[]> {
+  const offers: QuoteOffer[] = [];
+  for (const adapter of adapters) {
+    // One unreachable supplier shouldn't stop the others
+    try {
+      const match = findExactArticle(
+        await adapter.search(query, signal),
+        query,
+      );
+      if (!match) continue;
+      const offer = await adapter.fetchOffer(match.article, signal);
+      if (!offer) continue;
+      const { article, matchedBy } = match;
+      offers.push(
+        toQuoteOffer(
+          adapter,
+          article,
+          offer,
+          config,
+          `Article ${article.articleNumber}${article.description ? ` (${article.description})` : ""}, exact ${matchedBy} match.`,
+        ),
+      );
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn(`Supplier lookup failed: ${adapter.label}`, err);
+    }
+  }
+  return offers;
+}
+
+// Quotes rows from the supplier adapters. Returns the rows that at least
+// one adapter had, keyed by rowId (1-based, like quoteProducts').
+export async function lookupSupplierQuotes(
+  rows: unknown[][],
+  headers: unknown[],
+  adapters: SupplierAdapter[],
+  config: QuotingConfig,
+  signal?: AbortSignal,
+): Promise<Map<number, QuotedRow>> {
+  const quotes = new Map<number, QuotedRow>();
+  if (adapters.length === 0) return quotes;
+  const cols = detectBomColumns(headers);
+  const cell = (row: unknown[], index: number) =>
+    index === -1 ? "" : String(row[index] ?? "").trim();
+
+  const settled = await mapWithConcurrency(
+    rows,
+    LOOKUP_CONCURRENCY,
+    async (row) => {
+      const query: SupplierQuery = {
+        partNumber: cell(row, cols.partNumber),
+        ean: cell(row, cols.ean) || undefined,
+        manufacturer: cell(row, cols.manufacturer) || undefined,
+      };
+      if (!query.partNumber && !query.ean) return [];
+      return lookupRow(query, adapters, config, signal);
+    },
+  );
+  if (signal?.aborted) return quotes;
+
+  settled.forEach((result, i) => {
+    if (result.status !== "fulfilled" || result.value.length === 0) return;
+    const offers = result.value;
+    quotes.set(i + 1, {
+      rowId: i + 1,
+      offers,
+      reasoning: `Exact match in ${offers.map((o) => o.supplier).join(", ")}.`,
+      searchQueries: [],
+      searchResults: [],
+      quotedAt: Date.now(),
+      model: "supplier catalog",
+    });
+  });
+  return quotes;
+}
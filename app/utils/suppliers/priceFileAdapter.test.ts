@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { money } from "../currencyUtils";
+import { parsePriceTable } from "./priceFileAdapter";
+
+describe("parsePriceTable", () => {
+  it("reads a German price list with tiers", () => {
+    const entries = parsePriceTable({
+      label: "preise.csv",
+      currency: "EUR",
+      rows: [
+        [
+          "Artikelnummer",
+          "Hersteller-Nr.",
+          "Hersteller",
+          "EAN",
+          "Bezeichnung",
+          "Preis",
+          "Preis ab 100",
+          "VPE",
+          "Lagerbestand",
+        ],
+        [
+          "A-1",
+          "LM358",
+          "TI",
+          "4000000000001",
+          "Op amp",
+          "0,50",
+          "0,40",
+          "10",
+          "250",
+        ],
+      ],
+    });
+
+    expect(entries).toEqual([
+      {
+        article: {
+          articleNumber: "A-1",
+          partNumber: "LM358",
+          ean: "4000000000001",
+          manufacturer: "TI",
+          description: "Op amp",
+          url: undefined,
+        },
+        offer: {
+          unitPrice: money(0.5, "EUR", 4),
+          pricesIncludeVat: false,
+          packQuantity: 10,
+          priceBreaks: [{ minQuantity: 100, unitPrice: money(0.4, "EUR", 4) }],
+          stock: 250,
+          deliveryTime: undefined,
+          url: undefined,
+        },
+      },
+    ]);
+  });
+
+  it("divides prices by the price unit", () => {
+    const [entry] = parsePriceTable({
+      label: "list.csv",
+      currency: "EUR",
+      rows: [
+        ["MPN", "Preis", "Preiseinheit", "Preisgruppe"],
+        ["RC0603", "12,50", "100", "7"],
+      ],
+    });
+    expect(entry.offer.unitPrice).toEqual(money(0.125, "EUR", 4));
+  });
+
+  it("takes currencies from the row or the price", () => {
+    const entries = parsePriceTable({
+      label: "list.csv",
+      currency: "EUR",
+      rows: [
+        ["Part No", "Price", "Currency"],
+        ["P1", "2.00", "usd"],
+        ["P2", "CHF 3.00", ""],
+      ],
+    });
+    expect(entries.map((e) => e.offer.unitPrice)).toEqual([
+      money(2, "USD", 4),
+      money(3, "CHF", 4),
+    ]);
+  });
+
+  it("keeps blank stock unknown and skips unpriced rows", () => {
+    const entries = parsePriceTable({
+      label: "list.csv",
+      currency: "EUR",
+      rows: [
+        ["Part No", "Price", "Stock"],
+        ["P1", "1.00", ""],
+        ["P2", "1.00", "0"],
+        ["P3", "", "5"],
+      ],
+    });
+    expect(entries.map((e) => e.offer.stock)).toEqual([null, 0]);
+    expect(entries[0].article.articleNumber).toBe("row-2");
+  });
+
+  it("needs a price and an identifying column", () => {
+    expect(() =>
+      parsePriceTable({
+        label: "a.csv",
+        currency: "EUR",
+        rows: [["Part No", "Description"]],
+      }),
+    ).toThrow("a.csv has no price column.");
+    expect(() =>
+      parsePriceTable({
+        label: "b.csv",
+        currency: "EUR",
+        rows: [["Description", "Price"]],
+      }),
+    ).toThrow("b.csv has no part number, article or EAN column.");
+  });
+});
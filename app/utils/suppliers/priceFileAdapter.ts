@@ -0,0 +1,201 @@
+import { normalizePartNumber, findHeader } from "../bomColumnUtils";
+import { money, parseMoney, type Money } from "../currencyUtils";
+import type {
+  CatalogEntry,
+  SupplierAdapter,
+  SupplierPriceBreak,
+} from "./types";
+
+// Header patterns for a supplier's price list (English and German)
+const COLUMN_PATTERNS = {
+  article:
+    /art(ikel)?[\s.-]*(no|nr|nummer)|order\s*(code|no)|\bsku\b|bestell[\s.-]*(nr|nummer)/i,
+  partNumber:
+    /\bmpn\b|part\s*(no|nr|number|#)|hersteller[\s.-]*(teile)?[\s.-]*(nr|nummer)|teilenummer/i,
+  ean: /\bean\b|\bgtin\b|\bupc\b|barcode/i,
+  manufacturer: /manufacturer|hersteller|\bmfr\b|brand|\bmarke\b/i,
+  description: /description|bezeichnung|beschreibung|\bname\b/i,
+  price: /price|preis/i,
+  // Pieces a price is for, e.g. "Preiseinheit" 100; not a price itself
+  priceUnit: /preiseinheit|price[\s_-]*unit\b|\bpe\b/i,
+  currency: /currency|währung|\bcur\b/i,
+  pack: /pack|\bvpe\b|verpackungseinheit|\bpu\b/i,
+  stock: /stock|bestand|lager|verfügbar/i,
+  delivery: /delivery|lieferzeit/i,
+  url: /\burl\b|link/i,
+};
+
+// Headers that mention a price but hold something else
+const NOT_PRICE = /gruppe|group|stand|datum|date/i;
+
+// "Price 10+", "Preis ab 100", "ab 1000 Stk"
+const TIER_PATTERN = /(?:ab|from)\s*(\d+)|(\d+)\s*\+/i;
+
+type PriceTableOptions = {
+  label: string; // For error messages
+  rows: unknown[][]; // Header row first
+  currency: string; // For prices without a currency column or symbol
+  pricesIncludeVat?: boolean; // Price lists are usually net
+};
+
+const text = (value: unknown) => String(value ?? "").trim();
+
+const positiveNumber = (value: unknown) => {
+  const n = Number(text(value).replace(",", "."));
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// Blank or unreadable means unknown, not none in stock
+const stockCount = (value: string) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) ? n : null;
+};
+
+// The articles of a supplier's price list (CSV or spreadsheet)
+export function parsePriceTable({
+  label,
+  rows,
+  currency,
+  pricesIncludeVat = false,
+}: PriceTableOptions): CatalogEntry[] {
+  const [headers = [], ...body] = rows;
+  const taken: number[] = [];
+  const find = (pattern: RegExp) => {
+    const index = findHeader(headers, pattern, taken);
+    if (index !== -1) taken.push(index);
+    return index;
+  };
+  // Most specific first, so "Hersteller-Nr" isn't taken as the manufacturer
+  const cols = {
+    priceUnit: find(COLUMN_PATTERNS.priceUnit),
+    ean: find(COLUMN_PATTERNS.ean),
+    partNumber: find(COLUMN_PATTERNS.partNumber),
+    article: find(COLUMN_PATTERNS.article),
+    currency: find(COLUMN_PATTERNS.currency),
+    manufacturer: find(COLUMN_PATTERNS.manufacturer),
+    description: find(COLUMN_PATTERNS.description),
+    pack: find(COLUMN_PATTERNS.pack),
+    stock: find(COLUMN_PATTERNS.stock),
+    delivery: find(COLUMN_PATTERNS.delivery),
+    url: find(COLUMN_PATTERNS.url),
+  };
+  // Price columns with a quantity are tiers; the first without is the list price
+  const priceCols = headers
+    .map((h, i) => ({ header: text(h), index: i }))
+    .filter(
+      ({ header, index }) =>
+        !taken.includes(index) &&
+        COLUMN_PATTERNS.price.test(header) &&
+        !NOT_PRICE.test(header),
+    );
+  const tierCols = priceCols.flatMap(({ header, index }) => {
+    const match = header.match(TIER_PATTERN);
+    const minQuantity = Number(match?.[1] ?? match?.[2]);
+    return match && minQuantity > 0 ? [{ index, minQuantity }] : [];
+  });
+  const priceCol =
+    priceCols.find(({ index }) => !tierCols.some((t) => t.index === index))
+      ?.index ??
+    tierCols[0]?.index ??
+    -1;
+
+  if (priceCol === -1) {
+    throw new Error(`${label} has no price column.`);
+  }
+  if (cols.partNumber === -1 && cols.article === -1 && cols.ean === -1) {
+    throw new Error(`${label} has no part number, article or EAN column.`);
+  }
+
+  const cell = (row: unknown[], index: number) =>
+    index === -1 ? "" : text(row[index]);
+
+  return body.flatMap((row, i) => {
+    const rowCurrency = cell(row, cols.currency).toUpperCase() || currency;
+    const piecesPerPrice = positiveNumber(cell(row, cols.priceUnit)) ?? 1;
+    const perPiece = (value: unknown): Money | null => {
+      const price = parseMoney(value, rowCurrency);
+      return price && money(price.amount / piecesPerPrice, price.currency, 4);
+    };
+    const unitPrice = perPiece(row[priceCol]);
+    if (!unitPrice) return [];
+    const partNumber = cell(row, cols.partNumber) || cell(row, cols.article);
+    const priceBreaks: SupplierPriceBreak[] = tierCols
+      .flatMap(({ index, minQuantity }) => {
+        const price = perPiece(row[index]);
+        return price ? [{ minQuantity, unitPrice: price }] : [];
+      })
+      .sort((a, b) => a.minQuantity - b.minQuantity);
+    const url = cell(row, cols.url);
+    return [
+      {
+        article: {
+          // Rows without a supplier number are addressed by position
+          articleNumber: cell(row, cols.article) || `row-${i + 2}`,
+          partNumber,
+          ean: cell(row, cols.ean) || undefined,
+          manufacturer: cell(row, cols.manufacturer) || undefined,
+          description: cell(row, cols.description) || undefined,
+          url: url || undefined,
+        },
+        offer: {
+          unitPrice,
+          pricesIncludeVat,
+          packQuantity: positiveNumber(cell(row, cols.pack)) ?? 1,
+          priceBreaks,
+          stock: stockCount(cell(row, cols.stock)),
+          deliveryTime: cell(row, cols.delivery) || undefined,
+          url: url || undefined,
+        },
+      },
+    ];
+  });
+}
+
+// Key every entry under its part number, article number and EAN
+const indexEntries = (entries: CatalogEntry[]) => {
+  const index = new Map<string, CatalogEntry[]>();
+  entries.forEach((entry) => {
+    const { partNumber, articleNumber, ean } = entry.article;
+    const keys = new Set(
+      [partNumber, articleNumber, ean].map(normalizePartNumber).filter(Boolean),
+    );
+    keys.forEach((key) => index.set(key, [...(index.get(key) ?? []), entry]));
+  });
+  return index;
+};
+
+// A local catalog as an adapter. Articles are matched by manufacturer part
+// number, supplier article number or EAN.
+export function createCatalogAdapter({
+  id,
+  label,
+  catalogFile,
+  entries,
+}: {
+  id: string;
+  label: string;
+  catalogFile?: string;
+  entries: CatalogEntry[];
+}): SupplierAdapter {
+  const index = indexEntries(entries);
+  const byArticle = new Map(
+    entries.map((entry) => [entry.article.articleNumber, entry]),
+  );
+
+  return {
+    id,
+    label,
+    catalogFile,
+    search: async ({ partNumber, ean }) => {
+      const found = new Set(
+        [partNumber, ean]
+          .map(normalizePartNumber)
+          .filter(Boolean)
+          .flatMap((key) => index.get(key) ?? []),
+      );
+      return [...found].map(({ article }) => article);
+    },
+    fetchOffer: async ({ articleNumber }) =>
+      byArticle.get(articleNumber)?.offer ?? null,
+  };
+}
@@ -0,0 +1,122 @@
+import { normalizePartNumber } from "../bomColumnUtils";
+import { parseFile } from "../excelUtils";
+import {
+  isIndexedDbAvailable,
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+} from "../indexedDbUtils";
+import { parseBmecat } from "./bmecatParser";
+import { createCatalogAdapter, parsePriceTable } from "./priceFileAdapter";
+import type { CatalogEntry, SupplierAdapter } from "./types";
+
+// Imported supplier catalogs and price lists, kept in the browser so
+// negotiated prices are quoted before anything is searched on the web.
+
+export type PriceListFormat = "bmecat" | "table";
+
+export type PriceList = {
+  id: string; // The file name; importing it again replaces the list
+  fileName: string;
+  supplier: string;
+  format: PriceListFormat;
+  importedAt: number;
+  entries: CatalogEntry[];
+};
+
+const STORE = "priceLists";
+
+const isXml = (file: File, text: string) =>
+  /\.xml$/i.test(file.name) || text.trimStart().startsWith("<");
+
+// BMEcat XML, or a CSV/spreadsheet price list. Prices without a currency
+// are taken to be in `currency`.
+export async function importPriceList(
+  file: File,
+  currency: string,
+): Promise<PriceList> {
+  const base = {
+    id: file.name,
+    fileName: file.name,
+    importedAt: Date.now(),
+  };
+  const isTable = /\.(xlsx|xls|ods)$/i.test(file.name);
+  const text = isTable ? "" : await file.text();
+  if (!isTable && isXml(file, text)) {
+    const { supplier, entries } = parseBmecat(text, file.name, currency);
+    return { ...base, supplier, format: "bmecat", entries };
+  }
+  const rows = await parseFile(file);
+  if (rows.length < 2) {
+    throw new Error(`${file.name} has no rows below its header.`);
+  }
+  const entries = parsePriceTable({ label: file.name, rows, currency });
+  if (entries.length === 0) {
+    throw new Error(`${file.name} has no priced articles.`);
+  }
+  return {
+    ...base,
+    supplier: file.name.replace(/\.[^.]+$/, ""),
+    format: "table",
+    entries,
+  };
+}
+
+export async function getPriceLists(): Promise<PriceList[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const db = await openDatabase();
+  const store = db.transaction(STORE, "readonly").objectStore(STORE);
+  const lists = (await promisifyRequest(store.getAll())) as PriceList[];
+  return lists.sort((a, b) => a.supplier.localeCompare(b.supplier));
+}
+
+export async function savePriceList(list: PriceList): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(list, list.id);
+  await transactionDone(tx);
+}
+
+export async function deletePriceList(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export const createPriceListAdapter = (list: PriceList): SupplierAdapter =>
+  createCatalogAdapter({
+    id: `price-list:${list.id}`,
+    label: list.supplier,
+    catalogFile: list.fileName,
+    entries: list.entries,
+  });
+
+// Free-text search over every list, for browsing the store. Matches part
+// and article numbers, EANs and descriptions.
+export function searchPriceLists(
+  lists: PriceList[],
+  query: string,
+  limit = 50,
+): { list: PriceList; entry: CatalogEntry }[] {
+  const code = normalizePartNumber(query);
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!code && words.length === 0) return [];
+  const matches = (entry: CatalogEntry) => {
+    const { partNumber, articleNumber, ean, description } = entry.article;
+    const codes = [partNumber, articleNumber, ean].map(normalizePartNumber);
+    if (code && codes.some((c) => c.includes(code))) return true;
+    const text = `${entry.article.manufacturer ?? ""} ${description ?? ""}`;
+    return words.every((word) => text.toLowerCase().includes(word));
+  };
+  const results: { list: PriceList; entry: CatalogEntry }[] = [];
+  for (const list of lists) {
+    for (const entry of list.entries) {
+      if (results.length >= limit) return results;
+      if (matches(entry)) results.push({ list, entry });
+    }
+  }
+  return results;
+}
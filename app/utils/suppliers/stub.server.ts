@@ -0,0 +1,54 @@
+import { normalizePartNumber } from "../bomColumnUtils";
+import type { SupplierArticle, SupplierOffer } from "./types";
+
+// Deterministic fake supplier behind /api/supplier-stub, for developing and
+// testing the HTTP adapter without a real supplier account. Every part
+// number is "listed"; prices, stock and pack sizes derive from it.
+
+const STUB_PREFIX = "STUB-";
+
+const hash = (value: string) => {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) {
+    h = ((h << 5) + h + value.charCodeAt(i)) >>> 0;
+  }
+  return h;
+};
+
+export function stubSearch(
+  partNumber: string,
+  manufacturer?: string,
+): SupplierArticle[] {
+  const part = normalizePartNumber(partNumber);
+  if (!part) return [];
+  return [
+    {
+      articleNumber: `${STUB_PREFIX}${part}`,
+      partNumber,
+      manufacturer,
+      description: `Stub article for ${partNumber}`,
+    },
+  ];
+}
+
+export function stubOffer(articleNumber: string): SupplierOffer | null {
+  if (!articleNumber.startsWith(STUB_PREFIX)) return null;
+  const seed = hash(articleNumber);
+  const amount = (seed % 10000) / 100 + 0.5;
+  const unitPrice = (factor: number) => ({
+    amount: Math.round(amount * factor * 10000) / 10000,
+    currency: "EUR",
+  });
+  const packQuantity = [1, 5, 10][seed % 3];
+  return {
+    unitPrice: unitPrice(1),
+    pricesIncludeVat: false,
+    packQuantity,
+    priceBreaks: [
+      { minQuantity: 10 * packQuantity, unitPrice: unitPrice(0.92) },
+      { minQuantity: 100 * packQuantity, unitPrice: unitPrice(0.85) },
+    ],
+    stock: seed % 500,
+    deliveryTime: seed % 500 > 0 ? "1-2 days" : "2-3 weeks",
+  };
+}
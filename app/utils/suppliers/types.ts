@@ -0,0 +1,56 @@
+import type { Money } from "../currencyUtils";
+
+// Deterministic catalog lookups, tried before (or instead of) web search.
+// An adapter wraps one supplier's structured data: a local price file or
+// an HTTP API. Prices come back exactly as the supplier lists them.
+
+export type SupplierQuery = {
+  partNumber: string;
+  ean?: string;
+  manufacturer?: string;
+};
+
+// A catalog entry found by search, before its price is fetched
+export type SupplierArticle = {
+  articleNumber: string; // The supplier's own number, used to fetch the offer
+  partNumber: string; // Manufacturer part number
+  ean?: string;
+  manufacturer?: string;
+  description?: string;
+  url?: string;
+};
+
+export type SupplierPriceBreak = {
+  minQuantity: number; // Pieces
+  unitPrice: Money;
+};
+
+export type SupplierOffer = {
+  unitPrice: Money;
+  pricesIncludeVat: boolean;
+  packQuantity: number; // Pieces per pack; prices are per piece
+  priceBreaks: SupplierPriceBreak[];
+  stock: number | null; // null when the supplier doesn't say
+  deliveryTime?: string;
+  url?: string;
+};
+
+// An article with its offer, as held by a local catalog
+export type CatalogEntry = {
+  article: SupplierArticle;
+  offer: SupplierOffer;
+};
+
+export interface SupplierAdapter {
+  id: string;
+  label: string; // Shown as the offer's supplier
+  catalogFile?: string; // Local catalogs: the imported file, cited on offers
+  search: (
+    query: SupplierQuery,
+    signal?: AbortSignal,
+  ) => Promise<SupplierArticle[]>;
+  fetchOffer: (
+    article: SupplierArticle,
+    signal?: AbortSignal,
+  ) => Promise<SupplierOffer | null>;
+}
@@ -0,0 +1,250 @@
+import * as XLSX from "xlsx";
+
+// The regular xlsx build reads a cell's fill and nothing else of its style,
+// and writes no styles at all. These read every cell's font, fill, border
+// and alignment from an .xlsx file's styles.xml in the shape the styling
+// fork writes back.
+
+type ZipEntry = { content: Uint8Array | number[] };
+type Zip = unknown;
+// Bundled with the xlsx build but typed as `any`
+const CFB = XLSX.CFB as {
+  read(data: Uint8Array, options: { type: "array" }): Zip;
+  find(zip: Zip, path: string): ZipEntry | null;
+};
+
+type StyleColor = { rgb?: string; theme?: number; tint?: number };
+
+export type CellStyle = {
+  font?: {
+    name?: string;
+    sz?: number;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    color?: StyleColor;
+  };
+  fill?: { patternType: string; fgColor?: StyleColor; bgColor?: StyleColor };
+  border?: Partial<
+    Record<
+      "top" | "bottom" | "left" | "right",
+      { style: string; color?: StyleColor }
+    >
+  >;
+  alignment?: {
+    horizontal?: string;
+    vertical?: string;
+    wrapText?: boolean;
+    indent?: number;
+    textRotation?: number;
+  };
+};
+
+// Sheet name -> cell address -> style
+export type WorkbookStyles = Record<string, Record<string, CellStyle>>;
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+const children = (parent: Element | undefined, name: string) =>
+  parent
+    ? Array.from(parent.children).filter((el) => el.localName === name)
+    : [];
+
+const all = (parent: Element | Document, name: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+// Paths are relative to the package root, e.g. "xl/styles.xml"
+function readXml(zip: Zip, path: string) {
+  const entry = CFB.find(zip, `/${path}`);
+  if (!entry) return null;
+  const text = new TextDecoder("utf-8").decode(new Uint8Array(entry.content));
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+const numberAttr = (el: Element, name: string) => {
+  const value = el.getAttribute(name);
+  return value === null || value === "" ? undefined : Number(value);
+};
+
+const booleanAttr = (el: Element, name: string) => {
+  const value = el.getAttribute(name);
+  return value === null ? undefined : value !== "0" && value !== "false";
+};
+
+// A bare <b/> is on; val="0" switches it off
+const isOn = (el: Element | undefined) =>
+  !!el && booleanAttr(el, "val") !== false;
+
+// ARGB as stored, RGB as written; indexed palette colors aren't kept
+function readColor(el: Element | undefined): StyleColor | undefined {
+  if (!el) return undefined;
+  const rgb = el.getAttribute("rgb");
+  const theme = numberAttr(el, "theme");
+  const tint = numberAttr(el, "tint");
+  if (rgb) return { rgb: rgb.length === 8 ? rgb.slice(2) : rgb };
+  if (theme !== undefined) return tint ? { theme, tint } : { theme };
+  return undefined;
+}
+
+function readFont(font: Element): CellStyle["font"] {
+  const val = (name: string) =>
+    children(font, name)[0]?.getAttribute("val") ?? undefined;
+  const underline = children(font, "u")[0];
+  const size = val("sz");
+  return {
+    name: val("name"),
+    sz: size ? Number(size) : undefined,
+    bold: isOn(children(font, "b")[0]) || undefined,
+    italic: isOn(children(font, "i")[0]) || undefined,
+    underline:
+      (!!underline && underline.getAttribute("val") !== "none") || undefined,
+    strike: isOn(children(font, "strike")[0]) || undefined,
+    color: readColor(children(font, "color")[0]),
+  };
+}
+
+function readFill(fill: Element): CellStyle["fill"] {
+  const pattern = children(fill, "patternFill")[0];
+  const patternType = pattern?.getAttribute("patternType");
+  if (!pattern || !patternType || patternType === "none") return undefined;
+  return {
+    patternType,
+    fgColor: readColor(children(pattern, "fgColor")[0]),
+    bgColor: readColor(children(pattern, "bgColor")[0]),
+  };
+}
+
+function readBorder(border: Element): CellStyle["border"] {
+  const sides = (["top", "bottom", "left", "right"] as const).flatMap(
+    (side) => {
+      const el = children(border, side)[0];
+      const style = el?.getAttribute("style");
+      if (!el || !style) return [];
+      return [[side, { style, color: readColor(children(el, "color")[0]) }]];
+    },
+  );
+  return sides.length > 0 ? Object.fromEntries(sides) : undefined;
+}
+
+function readAlignment(xf: Element): CellStyle["alignment"] {
+  const el = children(xf, "alignment")[0];
+  if (!el) return undefined;
+  return {
+    horizontal: el.getAttribute("horizontal") ?? undefined,
+    vertical: el.getAttribute("vertical") ?? undefined,
+    wrapText: booleanAttr(el, "wrapText"),
+    indent: numberAttr(el, "indent"),
+    textRotation: numberAttr(el, "textRotation"),
+  };
+}
+
+// The style of each cellXfs entry, in order; the cells' `s` attribute
+// points into it
+function readStyleTable(styles: Document): (CellStyle | null)[] {
+  const section = (name: string, item: string) =>
+    children(all(styles, name)[0], item);
+  const fonts = section("fonts", "font").map(readFont);
+  const fills = section("fills", "fill").map(readFill);
+  const borders = section("borders", "border").map(readBorder);
+
+  return section("cellXfs", "xf").map((xf, i) => {
+    // The first entry is the workbook default, written anyway
+    if (i === 0) return null;
+    const pick = <T>(list: T[], attr: string) =>
+      list[numberAttr(xf, attr) ?? 0];
+    const style: CellStyle = {
+      font: pick(fonts, "fontId"),
+      fill: pick(fills, "fillId"),
+      border: pick(borders, "borderId"),
+      alignment: readAlignment(xf),
+    };
+    const entries = Object.entries(style).filter(([, v]) => v !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  });
+}
+
+// The worksheet file behind each sheet name
+function sheetPaths(zip: Zip): Record<string, string> {
+  const workbook = readXml(zip, "xl/workbook.xml");
+  const rels = readXml(zip, "xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) return {};
+  const targets = Object.fromEntries(
+    all(rels, "Relationship").map((rel) => [
+      rel.getAttribute("Id"),
+      rel.getAttribute("Target") ?? "",
+    ]),
+  );
+  return Object.fromEntries(
+    all(workbook, "sheet").map((sheet) => {
+      const target = targets[sheet.getAttribute("r:id") ?? ""] ?? "";
+      return [
+        sheet.getAttribute("name") ?? "",
+        target.startsWith("/") ? target.slice(1) : `xl/${target}`,
+      ];
+    }),
+  );
+}
+
+// Empty for anything but an .xlsx (or .xlsm) file
+export function readCellStyles(data: ArrayBuffer): WorkbookStyles {
+  const bytes = new Uint8Array(data);
+  if (!isZip(bytes)) return {};
+  try {
+    const zip = CFB.read(bytes, { type: "array" });
+    const styles = readXml(zip, "xl/styles.xml");
+    if (!styles) return {};
+    const table = readStyleTable(styles);
+
+    const result: WorkbookStyles = {};
+    Object.entries(sheetPaths(zip)).forEach(([name, path]) => {
+      const sheet = readXml(zip, path);
+      if (!sheet) return;
+      const cells: Record<string, CellStyle> = {};
+      all(sheet, "c").forEach((cell) => {
+        const address = cell.getAttribute("r");
+        const style = table[numberAttr(cell, "s") ?? 0];
+        if (address && style) cells[address] = style;
+      });
+      result[name] = cells;
+    });
+    return result;
+  } catch (err) {
+    console.warn("Could not read cell styles", err);
+    return {};
+  }
+}
+
+// Puts each cell's style on it; styled empty cells (borders, fills) are
+// kept as stubs so they're written back too
+export function applyCellStyles(
+  workbook: XLSX.WorkBook,
+  styles: WorkbookStyles,
+) {
+  Object.entries(styles).forEach(([name, cells]) => {
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet) return;
+    Object.entries(cells).forEach(([address, style]) => {
+      const cell = worksheet[address] as XLSX.CellObject | undefined;
+      if (cell) cell.s = style;
+      else worksheet[address] = { t: "z", s: style };
+    });
+  });
+}
+
+// Files other than .xlsx only get their fill read, as a bare pattern
+export const toCellStyle = (s: unknown): CellStyle | undefined => {
+  if (!s || typeof s !== "object") return undefined;
+  return "patternType" in s
+    ? { fill: s as CellStyle["fill"] }
+    : (s as CellStyle);
+};
+
+// The styling fork of the xlsx build, loaded on demand
+export async function loadStyledXlsx() {
+  const imported = await import("xlsx-js-style");
+  // It's a CommonJS build; depending on the bundler the API is on `default`
+  return "utils" in imported
+    ? imported
+    : (imported as unknown as { default: typeof imported }).default;
+}